@@ -62,6 +62,7 @@ export class ValidateCommand {
           cancellable: false,
         },
         async (progress) => {
+          const version = document.version;
           const text = document.getText();
           const errors: any[] = [];
 
@@ -84,7 +85,7 @@ export class ValidateCommand {
               if (config.validateJsonOutput) {
                 progress.report({ increment: 30, message: "Validating JSON output..." });
                 const jsonResult = await this.jsonValidator.validateWithTiming(jsonOutput, document);
-                errors.push(...jsonResult.errors);
+                errors.push(...this.templateEngine.mapOutputErrors(jsonResult.errors, renderResult, text));
               }
             } else if (renderResult.error) {
               errors.push({
@@ -92,6 +93,7 @@ export class ValidateCommand {
                 line: 1,
                 column: 0,
                 severity: "error",
+                code: renderResult.errorCode,
                 source: "template-engine",
               });
             }
@@ -100,7 +102,7 @@ export class ValidateCommand {
           progress.report({ increment: 20, message: "Updating diagnostics..." });
 
           // Update diagnostics
-          this.diagnosticsProvider.updateDiagnostics(document.uri, errors);
+          this.diagnosticsProvider.updateDiagnostics(document.uri, errors, version);
         }
       );
 
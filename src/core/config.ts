@@ -1,19 +1,37 @@
 import * as vscode from "vscode";
-import { ExtensionConfig, ContextFileInfo } from "./types";
+import * as path from "path";
+import { ExtensionConfig, ContextFileInfo, EscapeStrategy } from "./types";
 import { CONFIG_SECTION, CONFIG_KEYS, DEFAULT_CONFIG } from "./constants";
 
+// A scheme of two or more characters, so Windows drive letters are not mistaken for one
+const URI_SCHEME_PATTERN = /^[a-z][a-z0-9+.-]+:/i;
+
 export class ConfigurationManager {
   private static instance: ConfigurationManager;
   private _onConfigChanged = new vscode.EventEmitter<ExtensionConfig>();
+  private _onContextChanged = new vscode.EventEmitter<void>();
 
   public readonly onConfigChanged = this._onConfigChanged.event;
 
+  /** Fires when another context file is selected or the selected one is saved */
+  public readonly onContextChanged = this._onContextChanged.event;
+
   private constructor() {
     // Listen for configuration changes
     vscode.workspace.onDidChangeConfiguration((event) => {
       if (event.affectsConfiguration(CONFIG_SECTION)) {
         this._onConfigChanged.fire(this.getConfig());
       }
+      if (event.affectsConfiguration(`${CONFIG_SECTION}.${CONFIG_KEYS.CONTEXT_FILE}`)) {
+        this._onContextChanged.fire();
+      }
+    });
+
+    vscode.workspace.onDidSaveTextDocument((document) => {
+      const contextFile = this.getConfig().contextFile;
+      if (contextFile && document.uri.fsPath === this.resolveWorkspacePath(contextFile)) {
+        this._onContextChanged.fire();
+      }
     });
   }
 
@@ -39,6 +57,12 @@ export class ConfigurationManager {
       autoFormat: config.get(CONFIG_KEYS.AUTO_FORMAT, DEFAULT_CONFIG.autoFormat),
       maxCacheSize: config.get(CONFIG_KEYS.MAX_CACHE_SIZE, DEFAULT_CONFIG.maxCacheSize),
       debounceTime: config.get(CONFIG_KEYS.DEBOUNCE_TIME, DEFAULT_CONFIG.debounceTime),
+      analyzeBranches: config.get(CONFIG_KEYS.ANALYZE_BRANCHES, DEFAULT_CONFIG.analyzeBranches),
+      escapeStrategy: config.get<EscapeStrategy>(CONFIG_KEYS.ESCAPE_STRATEGY, DEFAULT_CONFIG.escapeStrategy),
+      customEscapeFunction: config.get(CONFIG_KEYS.CUSTOM_ESCAPE_FUNCTION, DEFAULT_CONFIG.customEscapeFunction),
+      partialDirectories: config.get<string[]>(CONFIG_KEYS.PARTIAL_DIRECTORIES, [...DEFAULT_CONFIG.partialDirectories]),
+      partialExtensions: config.get<string[]>(CONFIG_KEYS.PARTIAL_EXTENSIONS, [...DEFAULT_CONFIG.partialExtensions]),
+      showInlayHints: config.get(CONFIG_KEYS.SHOW_INLAY_HINTS, DEFAULT_CONFIG.showInlayHints),
     };
   }
 
@@ -231,21 +255,40 @@ export class ConfigurationManager {
   }
 
   private resolveContextFilePath(filePath: string): string {
-    // If it's already absolute, return as-is
-    if (vscode.Uri.parse(filePath).scheme) {
+    return this.resolveWorkspacePath(filePath);
+  }
+
+  /**
+   * Resolve a configured path against the workspace root
+   */
+  public resolveWorkspacePath(filePath: string): string {
+    // Absolute paths and URIs such as https://… are returned as-is
+    if (path.isAbsolute(filePath) || URI_SCHEME_PATTERN.test(filePath)) {
       return filePath;
     }
 
     // Resolve relative to workspace root
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
     if (workspaceFolder) {
-      return vscode.Uri.joinPath(workspaceFolder.uri, filePath).fsPath;
+      return path.resolve(workspaceFolder.uri.fsPath, filePath);
     }
 
     return filePath;
   }
 
+  /**
+   * Resolve a path written in a file against that file's directory, falling back to the workspace root for unsaved files
+   */
+  public resolveDocumentPath(filePath: string, documentPath?: string): string {
+    if (path.isAbsolute(filePath) || URI_SCHEME_PATTERN.test(filePath) || !documentPath || !path.isAbsolute(documentPath)) {
+      return this.resolveWorkspacePath(filePath);
+    }
+
+    return path.resolve(path.dirname(documentPath), filePath);
+  }
+
   public dispose(): void {
     this._onConfigChanged.dispose();
+    this._onContextChanged.dispose();
   }
 }
@@ -26,6 +26,9 @@ export const COMMANDS = {
   CLEAR_CONTEXT: "mustacheJsonValidator.clearContext",
   CLEAR_CACHE: "mustacheJsonValidator.clearCache",
   TOGGLE_VALIDATION: "mustacheJsonValidator.toggleValidation",
+  GENERATE_SCHEMA: "mustacheJsonValidator.generateContextSchema",
+  SHOW_COVERAGE: "mustacheJsonValidator.showContextCoverage",
+  PREVIEW_SECTION: "mustacheJsonValidator.previewSection",
 } as const;
 
 // ============================================================================
@@ -43,6 +46,12 @@ export const CONFIG_KEYS = {
   AUTO_FORMAT: "autoFormat",
   MAX_CACHE_SIZE: "maxCacheSize",
   DEBOUNCE_TIME: "debounceTime",
+  ANALYZE_BRANCHES: "analyzeBranches",
+  ESCAPE_STRATEGY: "escapeStrategy",
+  CUSTOM_ESCAPE_FUNCTION: "customEscapeFunction",
+  PARTIAL_DIRECTORIES: "partialDirectories",
+  PARTIAL_EXTENSIONS: "partialExtensions",
+  SHOW_INLAY_HINTS: "showInlayHints",
 } as const;
 
 // ============================================================================
@@ -58,6 +67,12 @@ export const DEFAULT_CONFIG = {
   autoFormat: false,
   maxCacheSize: 100,
   debounceTime: 300,
+  analyzeBranches: true,
+  escapeStrategy: "html",
+  customEscapeFunction: "",
+  partialDirectories: [],
+  partialExtensions: [".mustache.json", ".mst.json", ".mustache"],
+  showInlayHints: true,
 } as const;
 
 // ============================================================================
@@ -87,6 +102,9 @@ export const MUSTACHE_PATTERNS = {
   // Partial: {{>partial}}
   PARTIAL: /\{\{\s*>\s*([a-zA-Z_][a-zA-Z0-9_.\-]*)\s*\}\}/g,
 
+  // Context comment content: {{! context: ../contexts/x.json }} names the context a template is written against
+  CONTEXT_COMMENT: /^(context:\s*)(\S+)/,
+
   // Any mustache tag
   ANY_TAG: /\{\{[^}]*\}\}/g,
 
@@ -130,6 +148,12 @@ export const ERROR_CODES = {
   INVALID_TAG_NAME: "M004",
   UNKNOWN_VARIABLE: "M005",
   NESTED_SECTIONS: "M006",
+  LOOP_SEPARATOR: "M007",
+  VALUE_TYPE_MISMATCH: "M008",
+  UNESCAPED_IN_STRING: "M009",
+  PARTIAL_NOT_FOUND: "M010",
+  PARTIAL_CYCLE: "M011",
+  PARTIAL_INVALID_JSON: "M012",
 
   // JSON errors
   JSON_SYNTAX_ERROR: "J001",
@@ -147,8 +171,144 @@ export const ERROR_CODES = {
   // Template rendering errors
   RENDER_ERROR: "R001",
   TEMPLATE_COMPILE_ERROR: "R002",
+  BRANCH_INVALID_JSON: "R003",
 } as const;
 
+// ============================================================================
+// ERROR CODE DESCRIPTIONS
+// ============================================================================
+
+export const ERROR_CODE_DESCRIPTIONS: { [code: string]: { title: string; description: string; example: string } } = {
+  [ERROR_CODES.MUSTACHE_SYNTAX_ERROR]: {
+    title: "Mustache syntax error",
+    description: "A tag is malformed: empty, nested inside another tag, or written with single braces.",
+    example: '"name": "{{user.{{field}}}}"   →   "name": "{{user.name}}"',
+  },
+  [ERROR_CODES.UNCLOSED_TAG]: {
+    title: "Unclosed tag",
+    description: "A tag opens with `{{` but never closes, or a section opened with `{{#name}}` has no `{{/name}}`.",
+    example: '"name": "{{name"   →   "name": "{{name}}"',
+  },
+  [ERROR_CODES.MISMATCHED_SECTION]: {
+    title: "Mismatched section",
+    description: "A closing tag does not match the innermost open section. Sections close in the reverse order they were opened.",
+    example: "{{#users}}{{#roles}}…{{/users}}{{/roles}}   →   {{#users}}{{#roles}}…{{/roles}}{{/users}}",
+  },
+  [ERROR_CODES.INVALID_TAG_NAME]: {
+    title: "Invalid tag name",
+    description:
+      "Tag names cannot be empty, start with a digit or contain whitespace. Use letters, digits, `_` and `-`, with `.` for nested keys.",
+    example: "{{1st name}}   →   {{firstName}}",
+  },
+  [ERROR_CODES.UNKNOWN_VARIABLE]: {
+    title: "Unknown variable",
+    description:
+      "The name cannot be resolved with the active context file - not on the current section item nor on any enclosing context. It renders as an empty string.",
+    example: 'Context {"user": {"name": "Ada"}}:   {{user.email}}   →   {{user.name}}',
+  },
+  [ERROR_CODES.NESTED_SECTIONS]: {
+    title: "Nested sections",
+    description:
+      "Sections are nested very deeply, or a section is nested directly in a section of the same name and re-enters the same value.",
+    example: "{{#items}}{{#items}}…{{/items}}{{/items}}   →   {{#items}}…{{/items}}",
+  },
+  [ERROR_CODES.LOOP_SEPARATOR]: {
+    title: "Loop separator",
+    description: "A repeated section leaves a trailing, leading, doubled or missing comma for some number of items.",
+    example: "[{{#items}}{{id}},{{/items}}]   →   [{{#items}}{{id}}{{#comma}},{{/comma}}{{/items}}]",
+  },
+  [ERROR_CODES.VALUE_TYPE_MISMATCH]: {
+    title: "Value type mismatch",
+    description:
+      "A rendered value does not fit its JSON position: a string rendered as a bare value, or a number or boolean rendered inside quotes.",
+    example: 'Context {"age": 42}:   "age": "{{age}}"   →   "age": {{age}}',
+  },
+  [ERROR_CODES.UNESCAPED_IN_STRING]: {
+    title: "Unescaped tag inside a string",
+    description: "`{{{name}}}` and `{{&name}}` insert the value raw, so a quote or backslash in it ends the JSON string early.",
+    example: '"bio": "{{{bio}}}"   →   "bio": "{{bio}}"',
+  },
+  [ERROR_CODES.PARTIAL_NOT_FOUND]: {
+    title: "Partial not found",
+    description:
+      "No file for `{{>name}}` exists in the template's directory or in `mustacheJsonValidator.partialDirectories`, with any of `mustacheJsonValidator.partialExtensions`.",
+    example: "{{>header}}   needs   header.mustache.json",
+  },
+  [ERROR_CODES.PARTIAL_CYCLE]: {
+    title: "Recursive partial",
+    description:
+      "A partial includes itself, directly or through other partials. Rendering only ends if every recursion sits in a section that runs out of data.",
+    example: 'tree.mustache.json:   {"children": [{{#children}}{{>tree}}{{#comma}},{{/comma}}{{/children}}]}',
+  },
+  [ERROR_CODES.PARTIAL_INVALID_JSON]: {
+    title: "Partial renders invalid JSON",
+    description:
+      "Rendered with sample data, the partial does not fit where it is included: a value after a colon, object members inside `{}`, or array items inside `[]`.",
+    example: '{ {{>address}} }   with address rendering   "street": "…",,',
+  },
+  [ERROR_CODES.JSON_SYNTAX_ERROR]: {
+    title: "JSON syntax error",
+    description: "The rendered output is not valid JSON. The position is mapped back onto the template text that produced it.",
+    example: '{"a": 1 "b": 2}   →   {"a": 1, "b": 2}',
+  },
+  [ERROR_CODES.TRAILING_COMMA]: {
+    title: "Trailing comma",
+    description: "JSON does not allow a comma after the last member of an object or the last item of an array.",
+    example: '{"a": 1, "b": 2,}   →   {"a": 1, "b": 2}',
+  },
+  [ERROR_CODES.MISSING_COMMA]: {
+    title: "Missing comma",
+    description: "Two members or items follow each other without a comma between them.",
+    example: '{"a": 1 "b": 2}   →   {"a": 1, "b": 2}',
+  },
+  [ERROR_CODES.DUPLICATE_KEY]: {
+    title: "Duplicate key",
+    description: "The same key appears twice in one object. Most parsers silently keep only the last value.",
+    example: '{"id": 1, "id": 2}   →   {"id": 1, "legacyId": 2}',
+  },
+  [ERROR_CODES.UNQUOTED_KEY]: {
+    title: "Unquoted key",
+    description: "JSON object keys must be double-quoted strings.",
+    example: '{name: "Ada"}   →   {"name": "Ada"}',
+  },
+  [ERROR_CODES.INVALID_ESCAPE]: {
+    title: "Invalid escape",
+    description: "A string contains a backslash escape JSON does not define, an incomplete `\\u` escape or a raw control character.",
+    example: '"path": "C:\\data"   →   "path": "C:\\\\data"',
+  },
+  [ERROR_CODES.CONTEXT_FILE_NOT_FOUND]: {
+    title: "Context file not found",
+    description: "`mustacheJsonValidator.contextFile` points to a file that does not exist.",
+    example: '"mustacheJsonValidator.contextFile": "./examples/context.json"',
+  },
+  [ERROR_CODES.CONTEXT_INVALID_JSON]: {
+    title: "Context file is not valid JSON",
+    description: "The context file exists but cannot be parsed, so templates are rendered without it.",
+    example: '{"name": "Ada",}   →   {"name": "Ada"}',
+  },
+  [ERROR_CODES.CONTEXT_READ_ERROR]: {
+    title: "Context file cannot be read",
+    description: "The context file exists but could not be read, e.g. because of its permissions.",
+    example: '"mustacheJsonValidator.contextFile": "./examples/context.json"',
+  },
+  [ERROR_CODES.RENDER_ERROR]: {
+    title: "Render error",
+    description: "The template could not be rendered with the current context.",
+    example: 'self.mustache.json:   {"self": {{>self}}}   never stops including itself',
+  },
+  [ERROR_CODES.TEMPLATE_COMPILE_ERROR]: {
+    title: "Template compile error",
+    description: "mustache.js rejects the template or one of its partials before rendering, e.g. because a section is never closed.",
+    example: "{{#users}}…   →   {{#users}}…{{/users}}",
+  },
+  [ERROR_CODES.BRANCH_INVALID_JSON]: {
+    title: "Invalid JSON for some section combination",
+    description:
+      "With some combination of empty, single and repeated sections the template renders invalid JSON. The message gives the smallest context that breaks it.",
+    example: '{ {{#a}}"a": 1{{/a}}{{#b}}, "b": 2{{/b}} }   renders   { , "b": 2 }   when a is empty',
+  },
+};
+
 // ============================================================================
 // DIAGNOSTIC SOURCES
 // ============================================================================
@@ -179,6 +339,9 @@ export const PERFORMANCE_LIMITS = {
   MAX_VALIDATION_TIME_MS: 5000,
   DEBOUNCE_TIME_MS: 300,
   MAX_CONCURRENT_VALIDATIONS: 3,
+  MAX_BRANCH_COMBINATIONS: 256,
+  MAX_PARTIAL_DEPTH: 32,
+  MAX_WORKSPACE_SYMBOLS: 500,
 } as const;
 
 // ============================================================================
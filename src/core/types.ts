@@ -13,6 +13,19 @@ export interface ValidationError {
   code?: string;
   source?: string;
   tags?: ValidationTag[];
+  fixes?: ValidationFix[];
+}
+
+export interface ValidationFix {
+  title: string;
+  edits: ValidationFixEdit[];
+  isPreferred?: boolean;
+}
+
+export interface ValidationFixEdit {
+  start: number; // Offsets into the validated text
+  end: number;
+  newText: string;
 }
 
 export type ValidationSeverity = "error" | "warning" | "info" | "hint";
@@ -42,6 +55,7 @@ export interface MustacheSection {
   endLine?: number;
   endColumn?: number;
   length: number;
+  offset: number;
 }
 
 export enum SectionType {
@@ -50,13 +64,26 @@ export enum SectionType {
   Closing = "closing", // {{/section}}
 }
 
+export interface MustacheSectionPair {
+  opening: MustacheSection;
+  closing?: MustacheSection; // Missing when the section is never closed
+}
+
 export interface MustacheVariable {
   name: string;
   line: number;
   column: number;
   length: number;
+  offset: number;
   isEscaped: boolean;
   isTripleBrace: boolean;
+  jsonPosition: JSONPosition;
+}
+
+export enum JSONPosition {
+  String = "string", // Inside a string value: "{{name}}"
+  Value = "value", // A bare value: {{age}}
+  Key = "key", // A property name: "{{key}}": or {{{key}}}:
 }
 
 export interface MustacheComment {
@@ -64,6 +91,7 @@ export interface MustacheComment {
   line: number;
   column: number;
   length: number;
+  offset: number;
 }
 
 export interface ParsedMustacheTemplate {
@@ -71,8 +99,125 @@ export interface ParsedMustacheTemplate {
   variables: MustacheVariable[];
   comments: MustacheComment[];
   errors: ValidationError[];
+  ast: MustacheRootNode;
+}
+
+// ============================================================================
+// MUSTACHE AST TYPES
+// ============================================================================
+
+export enum MustacheTagType {
+  Variable = "variable", // {{name}}
+  Unescaped = "unescaped", // {{{name}}} or {{&name}}
+  Section = "section", // {{#name}}
+  Inverted = "inverted", // {{^name}}
+  Closing = "closing", // {{/name}}
+  Partial = "partial", // {{>name}}
+  Comment = "comment", // {{! comment }}
+  Delimiter = "delimiter", // {{=<% %>=}}
+}
+
+/**
+ * A single Mustache tag with exact offsets (start/end include the delimiters)
+ */
+export interface MustacheTag {
+  type: MustacheTagType;
+  name: string; // Trimmed tag content: variable/section/partial name, comment text or delimiter pair
+  start: number;
+  end: number;
+  nameStart: number;
+  nameEnd: number;
+  openDelimiter: string;
+  closeDelimiter: string;
+  isTripleBrace: boolean;
+  standalone: boolean; // Alone on its line - the line's whitespace is not rendered
+}
+
+export enum MustacheNodeType {
+  Root = "root",
+  Text = "text",
+  Variable = "variable",
+  Section = "section",
+  Partial = "partial",
+  Comment = "comment",
+  Delimiter = "delimiter",
+  Error = "error",
+}
+
+export type MustacheParentNode = MustacheRootNode | MustacheSectionNode;
+
+interface MustacheNodeBase {
+  start: number;
+  end: number;
+  parent?: MustacheParentNode;
+}
+
+export interface MustacheTextNode extends MustacheNodeBase {
+  type: MustacheNodeType.Text;
+  value: string;
 }
 
+export interface MustacheVariableNode extends MustacheNodeBase {
+  type: MustacheNodeType.Variable;
+  name: string;
+  tag: MustacheTag;
+  isEscaped: boolean;
+}
+
+export interface MustacheSectionNode extends MustacheNodeBase {
+  type: MustacheNodeType.Section;
+  name: string;
+  inverted: boolean;
+  openTag: MustacheTag;
+  closeTag?: MustacheTag; // Undefined when the section is never closed
+  children: MustacheNode[];
+}
+
+export interface MustachePartialNode extends MustacheNodeBase {
+  type: MustacheNodeType.Partial;
+  name: string;
+  tag: MustacheTag;
+  indentation: string; // Line text before the tag as whitespace when it is the line's first tag, applied to the partial's lines
+  indentFirstLine: boolean; // False when text precedes the tag - only the partial's later lines are indented
+}
+
+export interface MustacheCommentNode extends MustacheNodeBase {
+  type: MustacheNodeType.Comment;
+  content: string;
+  tag: MustacheTag;
+}
+
+export interface MustacheDelimiterNode extends MustacheNodeBase {
+  type: MustacheNodeType.Delimiter;
+  tag: MustacheTag;
+  openDelimiter: string;
+  closeDelimiter: string;
+}
+
+export interface MustacheErrorNode extends MustacheNodeBase {
+  type: MustacheNodeType.Error;
+  message: string;
+  code: string;
+  fixes?: ValidationFix[];
+}
+
+export interface MustacheRootNode extends MustacheNodeBase {
+  type: MustacheNodeType.Root;
+  children: MustacheNode[];
+  tags: MustacheTag[]; // Every tag in document order, including closing tags
+  errors: MustacheErrorNode[];
+  unmatchedTags: MustacheTag[]; // Closing tags without an open section
+}
+
+export type MustacheNode =
+  | MustacheTextNode
+  | MustacheVariableNode
+  | MustacheSectionNode
+  | MustachePartialNode
+  | MustacheCommentNode
+  | MustacheDelimiterNode
+  | MustacheErrorNode;
+
 // ============================================================================
 // JSON TYPES
 // ============================================================================
@@ -109,18 +254,170 @@ export interface TemplateContext {
   [key: string]: any;
 }
 
+export interface ContextFrame {
+  view: any;
+  path: string; // Concrete context path of the frame, e.g. "users[1]"
+}
+
+export interface ContextLookupResult {
+  value: any;
+  path: string;
+  found: boolean;
+}
+
+export interface ResolutionScope {
+  section?: MustacheSectionNode; // Undefined for the root context
+  path: string; // Context path with array items collapsed, e.g. "users[]"
+  contextPath?: string; // Path in the current context, e.g. "users[0]"; undefined when the context never renders this scope
+  value?: any;
+  items?: number; // Length of the list a list section iterates, entered at its first item
+}
+
+export interface ResolutionCandidate {
+  path: string; // e.g. "users[].name"
+  contextPath?: string; // e.g. "users[0].name"
+  found: boolean;
+  value?: any;
+}
+
+export interface VariableResolution {
+  tag?: MustacheTag; // The tag at the position, if any
+  name?: string;
+  scopes: ResolutionScope[]; // Innermost first
+  candidates: ResolutionCandidate[]; // In lookup order, innermost first
+  resolved?: ResolutionCandidate; // The candidate Mustache uses in the current context
+}
+
 export interface RenderOptions {
-  context: TemplateContext;
+  context?: TemplateContext;
   partials?: { [name: string]: string };
   helpers?: { [name: string]: Function };
+  escape?: EscapeFunction;
 }
 
+export interface PartialIssue {
+  tag: MustacheTag; // The {{>partial}} tag in the template being validated
+  chain: string[]; // Partial names from that tag to the problem, e.g. ["header", "logo"]
+}
+
+export interface PartialResolution {
+  partials: { [name: string]: string };
+  files: { [name: string]: string }; // Resolved file path of each partial
+  missing: PartialIssue[];
+  cycles: PartialIssue[];
+}
+
+export interface ContextReference {
+  path: string; // Context path with array items collapsed, e.g. "users[].name"
+  start: number; // Offsets of the name segment, or the JSON key between its quotes, that refers to the path
+  end: number;
+}
+
+export interface ContextReferenceGroup {
+  uri: vscode.Uri;
+  ranges: vscode.Range[];
+  isContextFile: boolean; // The ranges cover JSON keys, which need escaping, rather than tag names
+}
+
+export type EscapeStrategy = "html" | "json-string" | "none" | "custom";
+
+export type EscapeFunction = (value: string) => string;
+
 export interface RenderResult {
   output: string;
   success: boolean;
   error?: string;
+  errorCode?: string; // R002 when the template cannot be compiled, R001 when rendering it with the context fails
   variables: string[];
   sections: string[];
+  sourceMap?: SourceMapSegment[];
+}
+
+export interface SourceMapSegment {
+  outputStart: number;
+  outputEnd: number;
+  templateStart: number;
+  templateEnd: number;
+  kind: SourceMapSegmentKind;
+  scopePath: string; // Context path of the enclosing section frame, e.g. "users[1]"
+  contextPath?: string; // Resolved context path for value segments, e.g. "users[1].name"
+  value?: any;
+  partial?: string; // Name of the partial whose output this is; positions then cover the {{>partial}} tag
+}
+
+export enum SourceMapSegmentKind {
+  Text = "text", // Literal template text
+  Value = "value", // Output of a {{variable}}, {{{variable}}} or {{&variable}} tag
+}
+
+export enum BranchState {
+  Absent = "absent", // false / empty list
+  Once = "once", // true / one item
+  Repeated = "repeated", // two items
+}
+
+export interface BranchAssignment {
+  name: string;
+  path: string; // Context path of the section value, e.g. "users[].tags"
+  state: BranchState;
+}
+
+export interface BranchCounterexample {
+  assignments: BranchAssignment[];
+  context: TemplateContext;
+  error: ValidationError; // Already mapped onto the template
+}
+
+export interface UnresolvedReference {
+  tag: MustacheTag;
+  isSection: boolean;
+  scopePath: string; // Context path of the innermost frame the lookup started from, e.g. "users[1]"
+}
+
+export interface ContextCoverage {
+  unresolved: UnresolvedReference[];
+  unusedKeys: string[]; // Topmost context keys the template never reads, e.g. "users[].age"
+}
+
+export interface SectionUsage {
+  section: MustacheSectionNode;
+  reached: number; // Times rendering got to the section's open tag
+  renders: number; // Times its content was rendered
+  skippedBy?: ContextLookupResult; // The first lookup that skipped it
+}
+
+export type ContextSchemaType = "string" | "number" | "boolean" | "object" | "array";
+
+export interface ContextSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: ContextSchemaType | ContextSchemaType[];
+  properties?: { [name: string]: ContextSchema };
+  items?: ContextSchema;
+  required?: string[];
+}
+
+export type OutlineValueKind = "object" | "array" | "string" | "number" | "boolean" | "null" | "variable" | "template";
+
+export interface TemplateOutlineNode {
+  kind: "member" | "section" | "partial";
+  name: string; // The key as written (it may contain tags), or the section or partial name
+  inverted?: boolean; // Sections only
+  valueKind?: OutlineValueKind; // Members only; "template" when sections or partials produce the value
+  value?: string; // Source of a scalar member value
+  start: number;
+  end: number;
+  selectionStart: number; // The key or the tag
+  selectionEnd: number;
+  children: TemplateOutlineNode[];
+}
+
+export interface IndexedTemplateSymbol {
+  node: TemplateOutlineNode;
+  uri: vscode.Uri;
+  range: vscode.Range; // The key or the tag
+  container?: TemplateOutlineNode; // The enclosing member or section
 }
 
 // ============================================================================
@@ -163,6 +460,12 @@ export interface ExtensionConfig {
   autoFormat: boolean;
   maxCacheSize: number;
   debounceTime: number;
+  analyzeBranches: boolean;
+  escapeStrategy: EscapeStrategy;
+  customEscapeFunction: string;
+  partialDirectories: string[];
+  partialExtensions: string[];
+  showInlayHints: boolean;
 }
 
 export interface ContextFileInfo {
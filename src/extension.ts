@@ -1,23 +1,53 @@
 import * as vscode from "vscode";
+import * as path from "path";
 import { MustacheValidator } from "./validators/mustache/mustacheValidator";
 import { JSONValidator } from "./validators/json/jsonValidator";
+import { MustacheBranchValidator } from "./validators/mustache/branchValidator";
+import { MustachePositionValidator } from "./validators/mustache/positionValidator";
+import { MustacheCoverageValidator } from "./validators/mustache/coverageValidator";
+import { MustachePartialValidator } from "./validators/mustache/partialValidator";
 import { DiagnosticsProvider } from "./providers/diagnosticsProvider";
 import {
   MustacheJSONDocumentFormattingProvider,
   MustacheJSONDocumentRangeFormattingProvider,
   MustacheJSONOnTypeFormattingProvider,
 } from "./providers/documentFormattingProvider";
+import { MustacheJSONCallHierarchyProvider } from "./providers/callHierarchyProvider";
+import { MustacheJSONCodeActionProvider } from "./providers/codeActionProvider";
+import { MustacheJSONCodeLensProvider } from "./providers/codeLensProvider";
+import { MustacheJSONDefinitionProvider } from "./providers/definitionProvider";
+import { MustacheJSONDocumentLinkProvider } from "./providers/documentLinkProvider";
+import { MustacheJSONDocumentHighlightProvider, MustacheJSONLinkedEditingRangeProvider } from "./providers/documentHighlightProvider";
+import { MustacheJSONDocumentSymbolProvider, MustacheJSONWorkspaceSymbolProvider } from "./providers/documentSymbolProvider";
+import { MustacheJSONFoldingRangeProvider } from "./providers/foldingRangeProvider";
+import { MustacheJSONSemanticTokensProvider } from "./providers/semanticTokensProvider";
+import { MustacheJSONSelectionRangeProvider } from "./providers/selectionRangeProvider";
+import { MustacheJSONReferenceProvider, MustacheJSONRenameProvider } from "./providers/referenceProvider";
+import { MustacheJSONCompletionProvider } from "./providers/completionProvider";
+import { MustacheJSONHoverProvider } from "./providers/hoverProvider";
+import { MustacheJSONInlayHintsProvider } from "./providers/inlayHintsProvider";
 import { TemplateEngine } from "./services/templateEngine";
+import { ContextLoader } from "./services/contextLoader";
+import { ContextCoverageAnalyzer } from "./services/coverageAnalyzer";
+import { PartialResolver } from "./services/partialResolver";
+import { TemplateParser } from "./services/templateParser";
 import { ConfigurationManager } from "./core/config";
-import { ExtensionConfig, ValidationResult, DocumentChangeEvent } from "./core/types";
+import { ExtensionConfig, ValidationResult, DocumentChangeEvent, PartialResolution } from "./core/types";
 import { EXTENSION_ID, COMMANDS, FILE_EXTENSIONS, PERFORMANCE_LIMITS } from "./core/constants";
+import { collectSections, findTagAt, getEnclosingSections, getSectionContentRange } from "./utils/astUtils";
 
 // Global extension state
 let diagnosticsCollection: vscode.DiagnosticCollection;
 let mustacheValidator: MustacheValidator;
 let jsonValidator: JSONValidator;
+let branchValidator: MustacheBranchValidator;
+let positionValidator: MustachePositionValidator;
+let coverageValidator: MustacheCoverageValidator;
+let partialValidator: MustachePartialValidator;
 let diagnosticsProvider: DiagnosticsProvider;
 let templateEngine: TemplateEngine;
+let contextLoader: ContextLoader;
+let partialResolver: PartialResolver;
 let configManager: ConfigurationManager;
 
 // Validation debounce timers
@@ -71,6 +101,10 @@ async function initializeServices(context: vscode.ExtensionContext): Promise<voi
   // Initialize validators
   mustacheValidator = new MustacheValidator();
   jsonValidator = new JSONValidator();
+  branchValidator = new MustacheBranchValidator();
+  positionValidator = new MustachePositionValidator();
+  coverageValidator = new MustacheCoverageValidator();
+  partialValidator = new MustachePartialValidator();
 
   // Initialize providers
   diagnosticsProvider = new DiagnosticsProvider(diagnosticsCollection);
@@ -79,6 +113,8 @@ async function initializeServices(context: vscode.ExtensionContext): Promise<voi
   // Initialize services
   templateEngine = new TemplateEngine();
   context.subscriptions.push(templateEngine);
+  contextLoader = new ContextLoader();
+  partialResolver = new PartialResolver();
 }
 
 /**
@@ -197,6 +233,38 @@ function registerCommands(context: vscode.ExtensionContext): void {
     await validateOpenDocuments();
   });
 
+  // Generate context schema command
+  const generateSchemaCommand = vscode.commands.registerCommand(COMMANDS.GENERATE_SCHEMA, async () => {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (activeEditor && isMustacheDocument(activeEditor.document)) {
+      await generateContextSchema(activeEditor.document);
+    } else {
+      vscode.window.showWarningMessage("No Mustache template file is currently active");
+    }
+  });
+
+  // Show context coverage command
+  const showCoverageCommand = vscode.commands.registerCommand(COMMANDS.SHOW_COVERAGE, async () => {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (activeEditor && isMustacheDocument(activeEditor.document)) {
+      await showContextCoverage(activeEditor.document);
+    } else {
+      vscode.window.showWarningMessage("No Mustache template file is currently active");
+    }
+  });
+
+  // Preview section output command - run from a section's CodeLens, or for the section at the cursor
+  const previewSectionCommand = vscode.commands.registerCommand(COMMANDS.PREVIEW_SECTION, async (uri?: vscode.Uri, offset?: number) => {
+    const activeEditor = vscode.window.activeTextEditor;
+    if (uri && offset !== undefined) {
+      await previewSectionOutput(await vscode.workspace.openTextDocument(uri), offset);
+    } else if (activeEditor && isMustacheDocument(activeEditor.document)) {
+      await previewSectionOutput(activeEditor.document, activeEditor.document.offsetAt(activeEditor.selection.active));
+    } else {
+      vscode.window.showWarningMessage("No Mustache template file is currently active");
+    }
+  });
+
   // Add to subscriptions
   context.subscriptions.push(
     validateCommand,
@@ -205,7 +273,10 @@ function registerCommands(context: vscode.ExtensionContext): void {
     selectContextCommand,
     clearCacheCommand,
     toggleValidationCommand,
-    clearContextCommand
+    clearContextCommand,
+    generateSchemaCommand,
+    showCoverageCommand,
+    previewSectionCommand
   );
 }
 
@@ -231,6 +302,109 @@ function registerProviders(context: vscode.ExtensionContext): void {
     vscode.languages.registerDocumentRangeFormattingEditProvider(documentSelector, rangeFormattingProvider),
     vscode.languages.registerOnTypeFormattingEditProvider(documentSelector, onTypeFormattingProvider, "}", ":", ",")
   );
+
+  // Register navigation between section tags, context keys and partial files
+  const definitionProvider = new MustacheJSONDefinitionProvider();
+
+  context.subscriptions.push(vscode.languages.registerDefinitionProvider(documentSelector, definitionProvider));
+
+  // Register links from partial names, context comments and schema references to their files
+  const documentLinkProvider = new MustacheJSONDocumentLinkProvider();
+
+  context.subscriptions.push(vscode.languages.registerDocumentLinkProvider(documentSelector, documentLinkProvider));
+
+  // Register highlighting of matching section tags and linked editing of their names
+  const documentHighlightProvider = new MustacheJSONDocumentHighlightProvider();
+  const linkedEditingRangeProvider = new MustacheJSONLinkedEditingRangeProvider();
+
+  context.subscriptions.push(
+    vscode.languages.registerDocumentHighlightProvider(documentSelector, documentHighlightProvider),
+    vscode.languages.registerLinkedEditingRangeProvider(documentSelector, linkedEditingRangeProvider)
+  );
+
+  // Register the outline of JSON keys and sections
+  const documentSymbolProvider = new MustacheJSONDocumentSymbolProvider();
+
+  context.subscriptions.push(vscode.languages.registerDocumentSymbolProvider(documentSelector, documentSymbolProvider));
+
+  // Register symbol search across every template in the workspace, indexed in the background
+  const workspaceSymbolProvider = new MustacheJSONWorkspaceSymbolProvider();
+
+  context.subscriptions.push(workspaceSymbolProvider, vscode.languages.registerWorkspaceSymbolProvider(workspaceSymbolProvider));
+
+  // Register folding of sections, comments and JSON containers
+  const foldingRangeProvider = new MustacheJSONFoldingRangeProvider();
+
+  context.subscriptions.push(vscode.languages.registerFoldingRangeProvider(documentSelector, foldingRangeProvider));
+
+  // Register expanding the selection through tags, sections and JSON nodes
+  const selectionRangeProvider = new MustacheJSONSelectionRangeProvider();
+
+  context.subscriptions.push(vscode.languages.registerSelectionRangeProvider(documentSelector, selectionRangeProvider));
+
+  // Register semantic highlighting of tags by what they resolve to
+  const semanticTokensProvider = new MustacheJSONSemanticTokensProvider();
+
+  context.subscriptions.push(
+    semanticTokensProvider,
+    vscode.languages.registerDocumentSemanticTokensProvider(
+      documentSelector,
+      semanticTokensProvider,
+      MustacheJSONSemanticTokensProvider.legend
+    )
+  );
+
+  // Register references and renames for context keys - they start from templates or from the context file
+  const contextFileSelector: vscode.DocumentSelector = { language: "json", scheme: "file" };
+  const referenceProvider = new MustacheJSONReferenceProvider();
+  const renameProvider = new MustacheJSONRenameProvider();
+
+  context.subscriptions.push(
+    vscode.languages.registerReferenceProvider(documentSelector, referenceProvider),
+    vscode.languages.registerReferenceProvider(contextFileSelector, referenceProvider),
+    vscode.languages.registerRenameProvider(documentSelector, renameProvider),
+    vscode.languages.registerRenameProvider(contextFileSelector, renameProvider)
+  );
+
+  // Register the hierarchy of partial includes - the templates that include a file and the partials it includes
+  const callHierarchyProvider = new MustacheJSONCallHierarchyProvider();
+
+  context.subscriptions.push(vscode.languages.registerCallHierarchyProvider(documentSelector, callHierarchyProvider));
+
+  // Register quick fixes for diagnostics
+  const codeActionProvider = new MustacheJSONCodeActionProvider(diagnosticsProvider);
+
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(documentSelector, codeActionProvider, {
+      providedCodeActionKinds: MustacheJSONCodeActionProvider.providedCodeActionKinds,
+    })
+  );
+
+  // Register section render counts for the active context
+  const codeLensProvider = new MustacheJSONCodeLensProvider();
+
+  context.subscriptions.push(codeLensProvider, vscode.languages.registerCodeLensProvider(documentSelector, codeLensProvider));
+
+  // Register context-aware completion inside tags
+  const completionProvider = new MustacheJSONCompletionProvider();
+
+  context.subscriptions.push(
+    vscode.languages.registerCompletionItemProvider(
+      documentSelector,
+      completionProvider,
+      ...MustacheJSONCompletionProvider.triggerCharacters
+    )
+  );
+
+  // Register hovers for tags and diagnostic codes
+  const hoverProvider = new MustacheJSONHoverProvider(diagnosticsProvider);
+
+  context.subscriptions.push(vscode.languages.registerHoverProvider(documentSelector, hoverProvider));
+
+  // Register the values tags render with the context file
+  const inlayHintsProvider = new MustacheJSONInlayHintsProvider();
+
+  context.subscriptions.push(inlayHintsProvider, vscode.languages.registerInlayHintsProvider(documentSelector, inlayHintsProvider));
 }
 
 /**
@@ -290,6 +464,9 @@ async function validateDocument(document: vscode.TextDocument): Promise<void> {
     return;
   }
 
+  // Fix edits are offsets into this version of the text
+  const version = document.version;
+
   try {
     const text = document.getText();
     const errors: any[] = [];
@@ -298,27 +475,48 @@ async function validateDocument(document: vscode.TextDocument): Promise<void> {
     const mustacheResult = await mustacheValidator.validateWithTiming(text, document);
     errors.push(...mustacheResult.errors);
 
+    // Check tags against their position in the JSON and the types of the context values they render
+    const context = await contextLoader.loadContext();
+    const positionResult = await positionValidator.validate(text, document, context);
+    errors.push(...positionResult.errors);
+
+    // Check every tag resolves against the context file
+    const coverageResult = await coverageValidator.validate(text, document, context);
+    errors.push(...coverageResult.errors);
+
+    // Check included partials exist, do not include themselves and render JSON that fits where they are included
+    const partialResolution = await resolvePartials(document);
+    const partialResult = await partialValidator.validate(text, document, partialResolution);
+    errors.push(...partialResult.errors);
+
     // If Mustache is valid, try to generate and validate JSON
     const config = configManager.getConfig();
     if (config.validateJsonOutput && mustacheResult.isValid) {
-      const renderResult = await templateEngine.renderTemplate(text);
+      const renderResult = await templateEngine.renderTemplate(text, undefined, { partials: partialResolution.partials });
 
       if (renderResult.success && renderResult.output) {
         const jsonResult = await jsonValidator.validateWithTiming(renderResult.output, document);
-        errors.push(...jsonResult.errors);
+        errors.push(...templateEngine.mapOutputErrors(jsonResult.errors, renderResult, text));
       } else if (renderResult.error) {
         errors.push({
           message: `Template rendering failed: ${renderResult.error}`,
           line: 1,
           column: 0,
           severity: "error",
+          code: renderResult.errorCode,
           source: "template-engine",
         });
       }
+
+      // Check the other shapes the context could take
+      if (config.analyzeBranches) {
+        const branchResult = await branchValidator.validate(text, document, partialResolution.partials);
+        errors.push(...branchResult.errors);
+      }
     }
 
     // Update diagnostics
-    diagnosticsProvider.updateDiagnostics(document.uri, errors);
+    diagnosticsProvider.updateDiagnostics(document.uri, errors, version);
   } catch (error) {
     console.error("Validation error:", error);
 
@@ -331,17 +529,25 @@ async function validateDocument(document: vscode.TextDocument): Promise<void> {
       source: "mustache-validator",
     };
 
-    diagnosticsProvider.updateDiagnostics(document.uri, [errorDiagnostic]);
+    diagnosticsProvider.updateDiagnostics(document.uri, [errorDiagnostic], version);
   }
 }
 
+/**
+ * Load the partials a document includes, searching next to the document first
+ */
+async function resolvePartials(document: vscode.TextDocument): Promise<PartialResolution> {
+  return partialResolver.resolve(document.getText(), document.uri.scheme === "file" ? document.uri.fsPath : undefined);
+}
+
 /**
  * Preview generated JSON
  */
 async function previewGeneratedJSON(document: vscode.TextDocument): Promise<void> {
   try {
     const text = document.getText();
-    const renderResult = await templateEngine.renderTemplate(text);
+    const { partials } = await resolvePartials(document);
+    const renderResult = await templateEngine.renderTemplate(text, undefined, { partials });
 
     if (renderResult.success && renderResult.output) {
       // Format the JSON output
@@ -362,6 +568,128 @@ async function previewGeneratedJSON(document: vscode.TextDocument): Promise<void
   }
 }
 
+/**
+ * Infer the context a template expects and save it as a JSON Schema
+ */
+async function generateContextSchema(document: vscode.TextDocument): Promise<void> {
+  try {
+    const templateName = path.basename(document.fileName);
+    const schema = templateEngine.inferContextSchema(document.getText(), `Context for ${templateName}`);
+
+    const baseName = FILE_EXTENSIONS.reduce(
+      (name, ext) => (name.toLowerCase().endsWith(ext) ? name.slice(0, -ext.length) : name),
+      templateName
+    );
+    const targetUri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(path.dirname(document.fileName), `${baseName}.schema.json`)),
+      saveLabel: "Save Context Schema",
+      filters: {
+        "JSON Schema": ["json"],
+      },
+    });
+
+    if (!targetUri) {
+      return;
+    }
+
+    await vscode.workspace.fs.writeFile(targetUri, Buffer.from(JSON.stringify(schema, null, 2) + "\n", "utf8"));
+    await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(targetUri), vscode.ViewColumn.Beside);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to generate context schema: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Report template tags the context file cannot resolve and context keys the template never reads
+ */
+async function showContextCoverage(document: vscode.TextDocument): Promise<void> {
+  try {
+    const contextInfo = await configManager.getContextFileInfo();
+    if (!contextInfo || !contextInfo.isValid || !contextInfo.content) {
+      vscode.window.showWarningMessage(
+        contextInfo?.error ? `Context file cannot be used: ${contextInfo.error}` : "No context file selected"
+      );
+      return;
+    }
+
+    const text = document.getText();
+    const coverage = new ContextCoverageAnalyzer().analyze(text, contextInfo.content);
+    const lines = [`# Context coverage: ${path.basename(document.fileName)}`, "", `Context file: \`${contextInfo.path}\``, ""];
+
+    lines.push(`## Unresolved tags (${coverage.unresolved.length})`, "");
+    for (const reference of coverage.unresolved) {
+      const position = document.positionAt(reference.tag.start);
+      const scope = reference.scopePath ? ` in \`${reference.scopePath}\`` : "";
+      lines.push(`- \`${text.substring(reference.tag.start, reference.tag.end)}\` at line ${position.line + 1}${scope}`);
+    }
+
+    lines.push("", `## Unused context keys (${coverage.unusedKeys.length})`, "");
+    for (const key of coverage.unusedKeys) {
+      lines.push(`- \`${key}\``);
+    }
+
+    const reportDoc = await vscode.workspace.openTextDocument({ content: lines.join("\n") + "\n", language: "markdown" });
+    await vscode.window.showTextDocument(reportDoc, vscode.ViewColumn.Beside);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Coverage report failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
+/**
+ * Preview what the section at an offset renders with the context file, each contiguous run of its output in turn
+ */
+async function previewSectionOutput(document: vscode.TextDocument, offset: number): Promise<void> {
+  try {
+    const text = document.getText();
+    const ast = new TemplateParser().parse(text);
+    const tag = findTagAt(ast, offset);
+    const section =
+      collectSections(ast).find((candidate) => candidate.openTag === tag || candidate.closeTag === tag) ||
+      getEnclosingSections(ast, offset).pop();
+
+    if (!section) {
+      vscode.window.showWarningMessage("No section at the cursor");
+      return;
+    }
+
+    const { partials } = await resolvePartials(document);
+    const renderResult = await templateEngine.renderTemplate(text, undefined, { partials });
+    if (!renderResult.success) {
+      vscode.window.showErrorMessage(`Failed to render template: ${renderResult.error || "Unknown error"}`);
+      return;
+    }
+
+    const content = getSectionContentRange(section);
+    const runs: string[] = [];
+    let previous = -1;
+
+    (renderResult.sourceMap || []).forEach((segment, index) => {
+      if (segment.templateStart < content.start || segment.templateEnd > content.end) {
+        return;
+      }
+      const output = renderResult.output.substring(segment.outputStart, segment.outputEnd);
+      if (index === previous + 1 && runs.length > 0) {
+        runs[runs.length - 1] += output;
+      } else {
+        runs.push(output);
+      }
+      previous = index;
+    });
+
+    if (!runs.some((run) => run.trim())) {
+      vscode.window.showInformationMessage(
+        `Section {{${section.inverted ? "^" : "#"}${section.name}}} renders nothing with the context file`
+      );
+      return;
+    }
+
+    const previewDoc = await vscode.workspace.openTextDocument({ content: runs.map((run) => run.trim()).join("\n\n"), language: "json" });
+    await vscode.window.showTextDocument(previewDoc, vscode.ViewColumn.Beside);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Section preview failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
 /**
  * Format document
  */
@@ -0,0 +1,139 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { PartialResolver } from "../services/partialResolver";
+import { TemplateFileWatcher } from "../services/fileWatcher";
+import { TemplateParser } from "../services/templateParser";
+import { MustacheTag, MustacheTagType } from "../core/types";
+import { findTagAt } from "../utils/astUtils";
+import { readWorkspaceFile } from "../utils/fileUtils";
+import { createLineColumnLookup } from "../utils/rangeUtils";
+
+/**
+ * Shows partial includes as calls: incoming from the templates that include a file, outgoing to the partials it includes
+ */
+export class MustacheJSONCallHierarchyProvider implements vscode.CallHierarchyProvider {
+  private partialResolver: PartialResolver;
+  private parser: TemplateParser;
+
+  constructor() {
+    this.partialResolver = new PartialResolver();
+    this.parser = new TemplateParser();
+  }
+
+  /**
+   * Start from the partial a {{>name}} tag includes, or from the template itself anywhere else
+   */
+  public async prepareCallHierarchy(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CallHierarchyItem | undefined> {
+    if (document.uri.scheme !== "file") {
+      return undefined;
+    }
+
+    const tag = findTagAt(this.parser.parse(document.getText()), document.offsetAt(position));
+    if (tag?.type === MustacheTagType.Partial && tag.name) {
+      const filePath = await this.partialResolver.findPartialFile(tag.name, document.uri.fsPath);
+      return filePath ? this.createItem(filePath) : undefined;
+    }
+
+    return this.createItem(document.uri.fsPath);
+  }
+
+  /**
+   * Find the templates whose {{>name}} tags resolve to the item's file
+   */
+  public async provideCallHierarchyIncomingCalls(
+    item: vscode.CallHierarchyItem,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CallHierarchyIncomingCall[]> {
+    const calls: vscode.CallHierarchyIncomingCall[] = [];
+
+    for (const uri of await TemplateFileWatcher.findTemplates()) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+
+      const text = await readWorkspaceFile(uri);
+      if (text === undefined) {
+        continue;
+      }
+
+      const includes = await this.getIncludes(text, uri.fsPath);
+      const tags = includes.get(item.uri.fsPath);
+      if (tags) {
+        calls.push(new vscode.CallHierarchyIncomingCall(this.createItem(uri.fsPath), this.getRanges(text, tags)));
+      }
+    }
+
+    return calls;
+  }
+
+  /**
+   * Find the partials the item's file includes, with the tags that include each of them
+   */
+  public async provideCallHierarchyOutgoingCalls(
+    item: vscode.CallHierarchyItem,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CallHierarchyOutgoingCall[]> {
+    const text = await readWorkspaceFile(item.uri);
+    if (text === undefined) {
+      return [];
+    }
+
+    const calls: vscode.CallHierarchyOutgoingCall[] = [];
+    for (const [filePath, tags] of await this.getIncludes(text, item.uri.fsPath)) {
+      calls.push(new vscode.CallHierarchyOutgoingCall(this.createItem(filePath), this.getRanges(text, tags)));
+    }
+
+    return calls;
+  }
+
+  /**
+   * Group a template's partial tags by the file they resolve to; partials that are not found are left out
+   */
+  private async getIncludes(text: string, templatePath: string): Promise<Map<string, MustacheTag[]>> {
+    const includes = new Map<string, MustacheTag[]>();
+    const files = new Map<string, string | undefined>(); // Each name resolves the same way throughout a template
+
+    for (const tag of this.parser.parse(text).tags) {
+      if (tag.type !== MustacheTagType.Partial || !tag.name) {
+        continue;
+      }
+
+      if (!files.has(tag.name)) {
+        files.set(tag.name, await this.partialResolver.findPartialFile(tag.name, templatePath));
+      }
+
+      const filePath = files.get(tag.name);
+      if (filePath) {
+        includes.set(filePath, [...(includes.get(filePath) || []), tag]);
+      }
+    }
+
+    return includes;
+  }
+
+  private getRanges(text: string, tags: MustacheTag[]): vscode.Range[] {
+    const locate = createLineColumnLookup(text);
+    const toPosition = (offset: number) => {
+      const location = locate(offset);
+      return new vscode.Position(location.line - 1, location.column);
+    };
+
+    return tags.map((tag) => new vscode.Range(toPosition(tag.start), toPosition(tag.end)));
+  }
+
+  private createItem(filePath: string): vscode.CallHierarchyItem {
+    const range = new vscode.Range(0, 0, 0, 0);
+    return new vscode.CallHierarchyItem(
+      vscode.SymbolKind.File,
+      path.basename(filePath),
+      vscode.workspace.asRelativePath(filePath),
+      vscode.Uri.file(filePath),
+      range,
+      range
+    );
+  }
+}
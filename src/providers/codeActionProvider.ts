@@ -0,0 +1,99 @@
+import * as vscode from "vscode";
+import { DiagnosticsProvider } from "./diagnosticsProvider";
+import { ValidationFix, ValidationFixEdit } from "../core/types";
+
+export class MustacheJSONCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix, vscode.CodeActionKind.SourceFixAll];
+
+  private diagnosticsProvider: DiagnosticsProvider;
+
+  constructor(diagnosticsProvider: DiagnosticsProvider) {
+    this.diagnosticsProvider = diagnosticsProvider;
+  }
+
+  /**
+   * Provide quick fixes for the diagnostics under the cursor, and a fix for everything in the file
+   */
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+    token: vscode.CancellationToken
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+
+    if (context.only?.intersects(vscode.CodeActionKind.SourceFixAll)) {
+      const fixAll = this.createFixAllAction(document, vscode.CodeActionKind.SourceFixAll);
+      return fixAll ? [fixAll] : [];
+    }
+
+    for (const diagnostic of context.diagnostics) {
+      for (const fix of this.diagnosticsProvider.getFixes(document, diagnostic)) {
+        actions.push(this.createFixAction(document, diagnostic, fix));
+      }
+    }
+
+    // Only worth offering when it does more than the fixes above
+    if (actions.length > 0 && this.diagnosticsProvider.getAllFixes(document).length > 1) {
+      const fixAll = this.createFixAllAction(document, vscode.CodeActionKind.QuickFix);
+      if (fixAll) {
+        actions.push(fixAll);
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Convert a validation fix into a quick fix action
+   */
+  private createFixAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, fix: ValidationFix): vscode.CodeAction {
+    const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+    action.edit = this.createEdit(document, fix.edits);
+    action.diagnostics = [diagnostic];
+    action.isPreferred = fix.isPreferred;
+
+    return action;
+  }
+
+  /**
+   * Apply the preferred fix of every diagnostic in the file, skipping fixes that touch text another fix already edits
+   */
+  private createFixAllAction(document: vscode.TextDocument, kind: vscode.CodeActionKind): vscode.CodeAction | undefined {
+    const edits: ValidationFixEdit[] = [];
+
+    for (const fixes of this.diagnosticsProvider.getAllFixes(document)) {
+      const fix = fixes.find((candidate) => candidate.isPreferred) || fixes[0];
+      if (fix && !fix.edits.some((edit) => edits.some((taken) => this.editsConflict(edit, taken)))) {
+        edits.push(...fix.edits);
+      }
+    }
+
+    if (edits.length === 0) {
+      return undefined;
+    }
+
+    const action = new vscode.CodeAction("Fix all in file", kind);
+    action.edit = this.createEdit(document, edits);
+
+    return action;
+  }
+
+  /**
+   * Two edits conflict when their ranges overlap; insertions at the same offset conflict too as their order is ambiguous
+   */
+  private editsConflict(a: ValidationFixEdit, b: ValidationFixEdit): boolean {
+    return a.start === b.start || (a.start < b.end && b.start < a.end);
+  }
+
+  private createEdit(document: vscode.TextDocument, edits: ValidationFixEdit[]): vscode.WorkspaceEdit {
+    const workspaceEdit = new vscode.WorkspaceEdit();
+
+    for (const edit of edits) {
+      const range = new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end));
+      workspaceEdit.replace(document.uri, range, edit.newText);
+    }
+
+    return workspaceEdit;
+  }
+}
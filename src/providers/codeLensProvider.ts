@@ -0,0 +1,104 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ConfigurationManager } from "../core/config";
+import { COMMANDS } from "../core/constants";
+import { ContextLoader } from "../services/contextLoader";
+import { SectionUsageAnalyzer } from "../services/sectionUsageAnalyzer";
+import { TemplateParser } from "../services/templateParser";
+import { SectionUsage } from "../core/types";
+import { isSeparatorSection } from "../utils/astUtils";
+import { formatValuePreview } from "../utils/stringUtils";
+
+const MAX_VALUE_PREVIEW_LENGTH = 30;
+
+export class MustacheJSONCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+  private configManager: ConfigurationManager;
+  private contextLoader: ContextLoader;
+  private parser: TemplateParser;
+  private usageAnalyzer: SectionUsageAnalyzer;
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [];
+
+  public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  constructor() {
+    this.configManager = ConfigurationManager.getInstance();
+    this.contextLoader = new ContextLoader();
+    this.parser = new TemplateParser();
+    this.usageAnalyzer = new SectionUsageAnalyzer();
+
+    // The counts come from the context file
+    this.disposables.push(this.configManager.onContextChanged(() => this._onDidChangeCodeLenses.fire()));
+  }
+
+  /**
+   * Show above each section how often it renders with the active context; clicking previews its output
+   */
+  public async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+    const context = await this.contextLoader.loadContext();
+    if (!context) {
+      return [];
+    }
+
+    const text = document.getText();
+    const ast = this.parser.parse(text);
+    const contextName = path.basename(this.configManager.getConfig().contextFile);
+    const lenses: vscode.CodeLens[] = [];
+
+    for (const usage of this.usageAnalyzer.analyze(text, context, ast).values()) {
+      if (!usage.section.closeTag || isSeparatorSection(usage.section)) {
+        continue;
+      }
+
+      const range = new vscode.Range(document.positionAt(usage.section.openTag.start), document.positionAt(usage.section.openTag.end));
+      lenses.push(
+        new vscode.CodeLens(range, {
+          title: this.getTitle(usage, contextName),
+          tooltip: "Preview the output of this section",
+          command: COMMANDS.PREVIEW_SECTION,
+          arguments: [document.uri, usage.section.openTag.start],
+        })
+      );
+    }
+
+    return lenses;
+  }
+
+  private getTitle(usage: SectionUsage, contextName: string): string {
+    if (usage.reached === 0) {
+      return `not reached with ${contextName}`;
+    }
+    if (usage.renders > 0) {
+      return `renders ${usage.renders}× with ${contextName}`;
+    }
+    return `skipped (${this.describeSkip(usage)})`;
+  }
+
+  /**
+   * Describe the value that made a section skip, e.g. "false", "empty list" or "missing"
+   */
+  private describeSkip(usage: SectionUsage): string {
+    const lookup = usage.skippedBy;
+    if (!lookup || !lookup.found) {
+      return "missing";
+    }
+
+    const value = lookup.value;
+    if (Array.isArray(value)) {
+      return value.length === 0 ? "empty list" : `${value.length} item${value.length === 1 ? "" : "s"}`;
+    }
+    if (typeof value === "function") {
+      return "lambda";
+    }
+    if (value !== null && typeof value === "object") {
+      return "object";
+    }
+
+    return formatValuePreview(value, MAX_VALUE_PREVIEW_LENGTH);
+  }
+
+  public dispose(): void {
+    this._onDidChangeCodeLenses.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
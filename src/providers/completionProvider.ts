@@ -0,0 +1,259 @@
+import * as vscode from "vscode";
+import { ContextLoader } from "../services/contextLoader";
+import { PartialResolver } from "../services/partialResolver";
+import { TemplateParser } from "../services/templateParser";
+import { VariableResolver } from "../services/variableResolver";
+import { ContextFrame, MustacheTagType, ResolutionScope, TemplateContext } from "../core/types";
+import { getEnclosingSections } from "../utils/astUtils";
+import { describeValueType, formatValuePreview } from "../utils/stringUtils";
+
+const MAX_SAMPLE_LENGTH = 200;
+
+// An open tag being typed: {{name, {{{name, {{&name, {{#name, {{^name, {{/name or {{>name
+const OPEN_TAG_PATTERN = /\{\{(\{|&|#|\^|\/|>)?\s*([^\s{}]*)$/;
+
+/**
+ * What kind of tag is being completed
+ */
+type CompletionTagKind = "variable" | "section" | "close" | "partial";
+
+export class MustacheJSONCompletionProvider implements vscode.CompletionItemProvider {
+  public static readonly triggerCharacters = ["{", "#", "^", "/", ">", "&", "."];
+
+  private contextLoader: ContextLoader;
+  private partialResolver: PartialResolver;
+  private parser: TemplateParser;
+  private resolver: VariableResolver;
+
+  constructor() {
+    this.contextLoader = new ContextLoader();
+    this.partialResolver = new PartialResolver();
+    this.parser = new TemplateParser();
+    this.resolver = new VariableResolver();
+  }
+
+  /**
+   * Provide completions inside an open Mustache tag
+   */
+  public async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+    context: vscode.CompletionContext
+  ): Promise<vscode.CompletionItem[]> {
+    const linePrefix = document.lineAt(position.line).text.substring(0, position.character);
+    const match = OPEN_TAG_PATTERN.exec(linePrefix);
+    if (!match) {
+      return [];
+    }
+
+    const sigil = match[1] || "";
+    const typed = match[2];
+    const kind = this.getTagKind(sigil);
+    const offset = document.offsetAt(position);
+
+    // Only the text before the tag decides the enclosing sections; the unfinished tag would confuse the parser
+    const before = document.getText().substring(0, offset - match[0].length);
+    const closing = this.getClosingText(document, position, sigil);
+
+    switch (kind) {
+      case "close":
+        return this.getCloseTagCompletions(before, position, typed, closing);
+      case "partial":
+        return this.getPartialCompletions(document, position, typed, closing);
+      default:
+        return this.getKeyCompletions(document.getText(), before, position, typed, kind, closing);
+    }
+  }
+
+  /**
+   * Suggest the innermost open section's name on {{/
+   */
+  private getCloseTagCompletions(before: string, position: vscode.Position, typed: string, closing: string): vscode.CompletionItem[] {
+    const sections = getEnclosingSections(this.parser.parse(before), before.length);
+    const innermost = sections[sections.length - 1];
+    if (!innermost) {
+      return [];
+    }
+
+    const item = new vscode.CompletionItem(innermost.name, vscode.CompletionItemKind.Keyword);
+    item.detail = `Close {{${innermost.inverted ? "^" : "#"}${innermost.name}}}`;
+    item.insertText = innermost.name + closing;
+    item.range = this.getTypedRange(position, typed);
+    item.preselect = true;
+
+    return [item];
+  }
+
+  /**
+   * Suggest partial names available next to the template and in the configured partial directories
+   */
+  private async getPartialCompletions(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    typed: string,
+    closing: string
+  ): Promise<vscode.CompletionItem[]> {
+    const templatePath = document.uri.scheme === "file" ? document.uri.fsPath : undefined;
+    const partials = await this.partialResolver.listPartials(templatePath);
+
+    return Array.from(partials.entries()).map(([name, filePath]) => {
+      const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.File);
+      item.detail = vscode.workspace.asRelativePath(filePath);
+      item.insertText = name + closing;
+      item.range = this.getTypedRange(position, typed);
+      return item;
+    });
+  }
+
+  /**
+   * Suggest context keys valid in the current section scope - inner scopes first, as Mustache looks them up
+   */
+  private async getKeyCompletions(
+    text: string,
+    before: string,
+    position: vscode.Position,
+    typed: string,
+    kind: CompletionTagKind,
+    closing: string
+  ): Promise<vscode.CompletionItem[]> {
+    const context = await this.contextLoader.loadContext();
+    const resolution = this.resolver.resolveAt(before, before.length, context);
+
+    // After a dot, complete the keys of the value the dotted prefix resolves to
+    const lastDot = typed.lastIndexOf(".");
+    const base = lastDot > 0 ? typed.substring(0, lastDot) : undefined;
+    const range = this.getTypedRange(position, typed.substring(lastDot + 1));
+
+    if (!context) {
+      return base ? [] : this.getTemplateNameCompletions(text, range, closing);
+    }
+
+    const scopes = base ? this.getDottedScopes(base, resolution.scopes) : resolution.scopes;
+    const items: vscode.CompletionItem[] = [];
+    const seen = new Set<string>();
+
+    scopes.forEach((scope, depth) => {
+      if (scope.contextPath === undefined || !this.isObject(scope.value)) {
+        return;
+      }
+
+      for (const key of Object.keys(scope.value)) {
+        if (seen.has(key)) {
+          continue; // Shadowed by an inner scope
+        }
+        seen.add(key);
+
+        const path = scope.contextPath ? `${scope.contextPath}.${key}` : key;
+        items.push(this.createKeyItem(key, scope.value[key], path, kind, depth, range, closing));
+      }
+    });
+
+    // {{.}} renders the current item of a list section
+    if (!base && kind === "variable" && resolution.scopes[0].section && resolution.scopes[0].contextPath !== undefined) {
+      const current = resolution.scopes[0];
+      items.push(this.createKeyItem(".", current.value, current.contextPath!, kind, -1, range, closing));
+    }
+
+    return items;
+  }
+
+  /**
+   * Resolve a dotted prefix on the context stack and offer its keys as the only scope
+   */
+  private getDottedScopes(base: string, scopes: ResolutionScope[]): ResolutionScope[] {
+    const frames: ContextFrame[] = scopes
+      .filter((scope) => scope.contextPath !== undefined)
+      .reverse()
+      .map((scope) => ({ view: scope.value, path: scope.contextPath! }));
+    if (frames.length === 0) {
+      return [];
+    }
+
+    const lookup = this.resolver.lookup(base, frames);
+    return lookup.found ? [{ path: lookup.path, contextPath: lookup.path, value: lookup.value }] : [];
+  }
+
+  /**
+   * Without a context file, offer the names the template already uses
+   */
+  private getTemplateNameCompletions(text: string, range: vscode.Range, closing: string): vscode.CompletionItem[] {
+    const names = new Set(
+      this.parser
+        .parse(text)
+        .tags.filter(
+          (tag) => tag.type !== MustacheTagType.Partial && tag.type !== MustacheTagType.Comment && tag.type !== MustacheTagType.Delimiter
+        )
+        .map((tag) => tag.name)
+        .filter((name) => name && name !== ".")
+    );
+
+    return Array.from(names).map((name) => {
+      const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Variable);
+      item.detail = "Used in this template";
+      item.insertText = name + closing;
+      item.range = range;
+      return item;
+    });
+  }
+
+  /**
+   * Create a completion item for a context key showing its type and a sample value
+   */
+  private createKeyItem(
+    key: string,
+    value: any,
+    path: string,
+    kind: CompletionTagKind,
+    depth: number,
+    range: vscode.Range,
+    closing: string
+  ): vscode.CompletionItem {
+    const isContainer = this.isObject(value) || Array.isArray(value);
+    const item = new vscode.CompletionItem(key, isContainer ? vscode.CompletionItemKind.Struct : vscode.CompletionItemKind.Variable);
+
+    item.detail = describeValueType(value);
+    item.documentation = new vscode.MarkdownString()
+      .appendMarkdown(`\`${path}\`\n\n`)
+      .appendCodeblock(formatValuePreview(value, MAX_SAMPLE_LENGTH, 2), "json");
+    item.insertText = key + closing;
+    item.range = range;
+
+    // Inner scopes first; sections prefer lists, objects and flags, variables prefer scalars
+    const preferred = kind === "section" ? isContainer || typeof value === "boolean" : !isContainer;
+    item.sortText = `${preferred ? 0 : 1}${String(depth + 1).padStart(2, "0")}${key}`;
+
+    return item;
+  }
+
+  /**
+   * Get the closing delimiter to insert, unless the tag is already closed
+   */
+  private getClosingText(document: vscode.TextDocument, position: vscode.Position, sigil: string): string {
+    const lineSuffix = document.lineAt(position.line).text.substring(position.character);
+    const closing = sigil === "{" ? "}}}" : "}}";
+    return /^\s*\}/.test(lineSuffix) ? "" : closing;
+  }
+
+  private getTagKind(sigil: string): CompletionTagKind {
+    switch (sigil) {
+      case "#":
+      case "^":
+        return "section";
+      case "/":
+        return "close";
+      case ">":
+        return "partial";
+      default:
+        return "variable";
+    }
+  }
+
+  private getTypedRange(position: vscode.Position, typed: string): vscode.Range {
+    return new vscode.Range(position.translate(0, -typed.length), position);
+  }
+
+  private isObject(value: any): value is TemplateContext {
+    return value !== null && typeof value === "object" && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,114 @@
+import * as vscode from "vscode";
+import { ConfigurationManager } from "../core/config";
+import { PartialResolver } from "../services/partialResolver";
+import { TemplateParser } from "../services/templateParser";
+import { VariableResolver } from "../services/variableResolver";
+import { MustacheSectionValidator } from "../validators/mustache/sectionValidator";
+import { MustacheRootNode, MustacheTag, MustacheTagType } from "../core/types";
+import { findTagAt } from "../utils/astUtils";
+import { findJSONPathRange } from "../utils/jsonPathUtils";
+
+export class MustacheJSONDefinitionProvider implements vscode.DefinitionProvider {
+  private configManager: ConfigurationManager;
+  private partialResolver: PartialResolver;
+  private parser: TemplateParser;
+  private resolver: VariableResolver;
+  private sectionValidator: MustacheSectionValidator;
+
+  constructor() {
+    this.configManager = ConfigurationManager.getInstance();
+    this.partialResolver = new PartialResolver();
+    this.parser = new TemplateParser();
+    this.resolver = new VariableResolver();
+    this.sectionValidator = new MustacheSectionValidator();
+  }
+
+  /**
+   * Jump from a section tag to its partner, from a name to its key in the context file and from a partial tag to its file
+   */
+  public async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Location[]> {
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+    const ast = this.parser.parse(text);
+    const tag = findTagAt(ast, offset);
+
+    if (!tag || offset >= tag.end) {
+      return [];
+    }
+
+    switch (tag.type) {
+      case MustacheTagType.Partial:
+        return this.getPartialLocation(document, tag);
+      case MustacheTagType.Section:
+      case MustacheTagType.Inverted:
+      case MustacheTagType.Closing:
+        return [...this.getMatchingTagLocation(document, text, ast, tag), ...(await this.getContextLocation(text, offset, ast))];
+      case MustacheTagType.Variable:
+      case MustacheTagType.Unescaped:
+        return this.getContextLocation(text, offset, ast);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Locate the other half of a section using the validator's pairing
+   */
+  private getMatchingTagLocation(document: vscode.TextDocument, text: string, ast: MustacheRootNode, tag: MustacheTag): vscode.Location[] {
+    const pairs = this.sectionValidator.groupSectionPairs(this.sectionValidator.extractSections(text, ast));
+    const pair = pairs.find((candidate) => candidate.opening.offset === tag.start || candidate.closing?.offset === tag.start);
+    const target = pair && (pair.opening.offset === tag.start ? pair.closing : pair.opening);
+    if (!target) {
+      return [];
+    }
+
+    const range = new vscode.Range(document.positionAt(target.offset), document.positionAt(target.offset + target.length));
+    return [new vscode.Location(document.uri, range)];
+  }
+
+  /**
+   * Locate the key a tag's name resolves to in the active context file
+   */
+  private async getContextLocation(text: string, offset: number, ast: MustacheRootNode): Promise<vscode.Location[]> {
+    const contextInfo = await this.configManager.getContextFileInfo();
+    if (!contextInfo || !contextInfo.isValid) {
+      return [];
+    }
+
+    const resolution = this.resolver.resolveAt(text, offset, contextInfo.content, ast);
+    const contextPath = resolution.resolved?.contextPath;
+    if (contextPath === undefined) {
+      return [];
+    }
+
+    const contextDocument = await vscode.workspace.openTextDocument(vscode.Uri.file(contextInfo.path));
+    const range = findJSONPathRange(contextDocument.getText(), contextPath);
+    if (!range) {
+      return []; // The file changed since it was loaded
+    }
+
+    return [
+      new vscode.Location(
+        contextDocument.uri,
+        new vscode.Range(contextDocument.positionAt(range.start), contextDocument.positionAt(range.end))
+      ),
+    ];
+  }
+
+  /**
+   * Locate the file a partial tag includes
+   */
+  private async getPartialLocation(document: vscode.TextDocument, tag: MustacheTag): Promise<vscode.Location[]> {
+    const templatePath = document.uri.scheme === "file" ? document.uri.fsPath : undefined;
+    const filePath = await this.partialResolver.findPartialFile(tag.name, templatePath);
+    if (!filePath) {
+      return [];
+    }
+
+    return [new vscode.Location(vscode.Uri.file(filePath), new vscode.Position(0, 0))];
+  }
+}
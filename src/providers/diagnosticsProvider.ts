@@ -1,5 +1,5 @@
 import * as vscode from "vscode";
-import { ValidationError, DiagnosticInfo, ExtensionConfig } from "../core/types";
+import { ValidationError, ValidationFix, DiagnosticInfo, ExtensionConfig } from "../core/types";
 import { DIAGNOSTIC_SOURCES } from "../core/constants";
 import { ConfigurationManager } from "../core/config";
 
@@ -7,6 +7,7 @@ export class DiagnosticsProvider {
   private diagnosticsCollection: vscode.DiagnosticCollection;
   private configManager: ConfigurationManager;
   private statusBarItem: vscode.StatusBarItem;
+  private fixes = new Map<string, { version: number; fixes: Map<string, ValidationFix[]> }>(); // Keyed by document URI
 
   constructor(diagnosticsCollection: vscode.DiagnosticCollection) {
     this.diagnosticsCollection = diagnosticsCollection;
@@ -23,22 +24,39 @@ export class DiagnosticsProvider {
   }
 
   /**
-   * Update diagnostics for a specific document
+   * Update diagnostics for a specific document from the errors found in the given version of its text
    */
-  public updateDiagnostics(uri: vscode.Uri, errors: ValidationError[]): void {
+  public updateDiagnostics(uri: vscode.Uri, errors: ValidationError[], version: number): void {
     const config = this.configManager.getConfig();
     const filteredErrors = this.filterErrorsByConfig(errors, config);
     const diagnostics = this.createDiagnostics(filteredErrors, uri);
 
     this.diagnosticsCollection.set(uri, diagnostics);
+    this.storeFixes(uri, filteredErrors, version);
     this.updateStatusBar(uri, filteredErrors);
   }
 
+  /**
+   * Get the quick fixes attached to a diagnostic, or none once the document has changed since it was validated
+   */
+  public getFixes(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): ValidationFix[] {
+    const key = this.getFixKey(diagnostic.range.start.line + 1, diagnostic.range.start.character, diagnostic.code, diagnostic.message);
+    return this.getCurrentFixes(document)?.get(key) || [];
+  }
+
+  /**
+   * Get the quick fixes of every diagnostic in a document, or none once it has changed since it was validated
+   */
+  public getAllFixes(document: vscode.TextDocument): ValidationFix[][] {
+    return Array.from(this.getCurrentFixes(document)?.values() || []);
+  }
+
   /**
    * Clear diagnostics for a specific document
    */
   public clearDiagnostics(uri: vscode.Uri): void {
     this.diagnosticsCollection.delete(uri);
+    this.fixes.delete(uri.toString());
     this.updateStatusBar(uri, []);
   }
 
@@ -47,6 +65,7 @@ export class DiagnosticsProvider {
    */
   public clearAllDiagnostics(): void {
     this.diagnosticsCollection.clear();
+    this.fixes.clear();
     this.statusBarItem.hide();
   }
 
@@ -126,6 +145,36 @@ export class DiagnosticsProvider {
     }
   }
 
+  /**
+   * Remember the fixes of each error so code actions can find them from the diagnostic
+   */
+  private storeFixes(uri: vscode.Uri, errors: ValidationError[], version: number): void {
+    const fixes = new Map<string, ValidationFix[]>();
+
+    for (const error of errors) {
+      if (error.fixes && error.fixes.length > 0) {
+        fixes.set(this.getFixKey(error.line, Math.max(0, error.column), error.code, error.message), error.fixes);
+      }
+    }
+
+    this.fixes.set(uri.toString(), { version, fixes });
+  }
+
+  /**
+   * Get a document's fixes if they were computed from its current text - their edits are offsets into that text
+   */
+  private getCurrentFixes(document: vscode.TextDocument): Map<string, ValidationFix[]> | undefined {
+    const stored = this.fixes.get(document.uri.toString());
+    return stored && stored.version === document.version ? stored.fixes : undefined;
+  }
+
+  /**
+   * Identify a diagnostic by position, code and message (diagnostics are copied when passed to code actions)
+   */
+  private getFixKey(line: number, column: number, code: vscode.Diagnostic["code"], message: string): string {
+    return `${line}:${column}:${String(code)}:${message}`;
+  }
+
   /**
    * Convert validation severity to VSCode severity
    */
@@ -0,0 +1,97 @@
+import * as vscode from "vscode";
+import { TemplateParser } from "../services/templateParser";
+import { MustacheNodeType, MustacheRootNode, MustacheSectionNode } from "../core/types";
+import { collectSections, findTagAt } from "../utils/astUtils";
+
+// Characters a section name can be edited to while the tags stay linked
+const SECTION_NAME_PATTERN = /[^\s{}#^/&>!=]+/;
+
+export class MustacheJSONDocumentHighlightProvider implements vscode.DocumentHighlightProvider {
+  private parser: TemplateParser;
+
+  constructor() {
+    this.parser = new TemplateParser();
+  }
+
+  /**
+   * Highlight both tags of the section under the cursor, and those of its {{^name}} else-branch
+   */
+  public provideDocumentHighlights(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): vscode.DocumentHighlight[] | undefined {
+    const ast = this.parser.parse(document.getText());
+    const section = findSectionAt(ast, document.offsetAt(position));
+    if (!section) {
+      return undefined;
+    }
+
+    const branches = [section];
+    const elseBranch = this.findElseBranch(section);
+    if (elseBranch) {
+      branches.push(elseBranch);
+    }
+
+    return branches
+      .flatMap((branch) => (branch.closeTag ? [branch.openTag, branch.closeTag] : [branch.openTag]))
+      .map((tag) => new vscode.DocumentHighlight(new vscode.Range(document.positionAt(tag.start), document.positionAt(tag.end))));
+  }
+
+  /**
+   * Find the section with the same name and the opposite sense right next to a section, e.g. {{#users}}…{{/users}}{{^users}}…{{/users}}
+   */
+  private findElseBranch(section: MustacheSectionNode): MustacheSectionNode | undefined {
+    const siblings = (section.parent?.children || []).filter((node) => node.type !== MustacheNodeType.Text || node.value.trim() !== "");
+    const index = siblings.indexOf(section);
+
+    return [siblings[index - 1], siblings[index + 1]].find(
+      (node): node is MustacheSectionNode =>
+        node?.type === MustacheNodeType.Section && node.name === section.name && node.inverted !== section.inverted
+    );
+  }
+}
+
+export class MustacheJSONLinkedEditingRangeProvider implements vscode.LinkedEditingRangeProvider {
+  private parser: TemplateParser;
+
+  constructor() {
+    this.parser = new TemplateParser();
+  }
+
+  /**
+   * Link the names of a section's open and close tags so renaming one renames the other
+   */
+  public provideLinkedEditingRanges(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): vscode.LinkedEditingRanges | undefined {
+    const offset = document.offsetAt(position);
+    const ast = this.parser.parse(document.getText());
+    const section = findSectionAt(ast, offset);
+
+    // Already mismatched names are left to the M003 quick fixes
+    if (!section || !section.closeTag || section.closeTag.name !== section.name) {
+      return undefined;
+    }
+
+    const tags = [section.openTag, section.closeTag];
+    if (!tags.some((tag) => tag.nameStart <= offset && offset <= tag.nameEnd)) {
+      return undefined;
+    }
+
+    return new vscode.LinkedEditingRanges(
+      tags.map((tag) => new vscode.Range(document.positionAt(tag.nameStart), document.positionAt(tag.nameEnd))),
+      SECTION_NAME_PATTERN
+    );
+  }
+}
+
+/**
+ * Find the section whose open or close tag contains an offset
+ */
+function findSectionAt(ast: MustacheRootNode, offset: number): MustacheSectionNode | undefined {
+  const tag = findTagAt(ast, offset);
+  return tag ? collectSections(ast).find((section) => section.openTag === tag || section.closeTag === tag) : undefined;
+}
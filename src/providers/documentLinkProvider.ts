@@ -0,0 +1,97 @@
+import * as vscode from "vscode";
+import { ConfigurationManager } from "../core/config";
+import { PartialResolver } from "../services/partialResolver";
+import { TemplateParser } from "../services/templateParser";
+import { MustacheTag, MustacheTagType } from "../core/types";
+import { MUSTACHE_PATTERNS } from "../core/constants";
+
+// "$schema": "…" and "$ref": "…" members with a literal value
+const SCHEMA_REFERENCE_PATTERN = /"(\$schema|\$ref)"\s*:\s*"([^"{}]+)"/g;
+
+export class MustacheJSONDocumentLinkProvider implements vscode.DocumentLinkProvider {
+  private configManager: ConfigurationManager;
+  private partialResolver: PartialResolver;
+  private parser: TemplateParser;
+
+  constructor() {
+    this.configManager = ConfigurationManager.getInstance();
+    this.partialResolver = new PartialResolver();
+    this.parser = new TemplateParser();
+  }
+
+  /**
+   * Link partial names to their files, and context comment paths and schema references to what they name
+   */
+  public async provideDocumentLinks(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.DocumentLink[]> {
+    const text = document.getText();
+    const ast = this.parser.parse(text);
+    const links: vscode.DocumentLink[] = [];
+
+    for (const tag of ast.tags) {
+      if (tag.type === MustacheTagType.Partial && tag.name) {
+        const link = await this.createPartialLink(document, tag);
+        if (link) {
+          links.push(link);
+        }
+      } else if (tag.type === MustacheTagType.Comment) {
+        const match = MUSTACHE_PATTERNS.CONTEXT_COMMENT.exec(tag.name);
+        if (match) {
+          const start = tag.nameStart + match[1].length;
+          links.push(this.createPathLink(document, start, start + match[2].length, match[2], "Open context file"));
+        }
+      }
+    }
+
+    const pattern = new RegExp(SCHEMA_REFERENCE_PATTERN.source, "g");
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      const reference = match[2];
+      const end = match.index + match[0].length - 1;
+
+      // Fragments within the same document, e.g. "#/definitions/user", have nowhere else to go
+      if (!reference.startsWith("#")) {
+        links.push(this.createPathLink(document, end - reference.length, end, reference, "Open schema"));
+      }
+    }
+
+    return links;
+  }
+
+  private async createPartialLink(document: vscode.TextDocument, tag: MustacheTag): Promise<vscode.DocumentLink | undefined> {
+    const filePath = await this.partialResolver.findPartialFile(tag.name, this.getDocumentPath(document));
+    if (!filePath) {
+      return undefined;
+    }
+
+    const link = new vscode.DocumentLink(this.createRange(document, tag.nameStart, tag.nameEnd), vscode.Uri.file(filePath));
+    link.tooltip = "Open partial";
+    return link;
+  }
+
+  /**
+   * Link a URL as is, or a path (without its fragment) resolved against the template's directory
+   */
+  private createPathLink(
+    document: vscode.TextDocument,
+    start: number,
+    end: number,
+    reference: string,
+    tooltip: string
+  ): vscode.DocumentLink {
+    const target = /^https?:\/\//i.test(reference)
+      ? vscode.Uri.parse(reference)
+      : vscode.Uri.file(this.configManager.resolveDocumentPath(reference.split("#")[0], this.getDocumentPath(document)));
+
+    const link = new vscode.DocumentLink(this.createRange(document, start, end), target);
+    link.tooltip = tooltip;
+    return link;
+  }
+
+  private getDocumentPath(document: vscode.TextDocument): string | undefined {
+    return document.uri.scheme === "file" ? document.uri.fsPath : undefined;
+  }
+
+  private createRange(document: vscode.TextDocument, start: number, end: number): vscode.Range {
+    return new vscode.Range(document.positionAt(start), document.positionAt(end));
+  }
+}
@@ -0,0 +1,105 @@
+import * as vscode from "vscode";
+import { TemplateOutlineBuilder } from "../services/outlineBuilder";
+import { WorkspaceSymbolIndex } from "../services/workspaceSymbolIndex";
+import { OutlineValueKind, TemplateOutlineNode } from "../core/types";
+
+const MAX_DETAIL_LENGTH = 40;
+
+const VALUE_SYMBOL_KINDS: { [kind in OutlineValueKind]: vscode.SymbolKind } = {
+  object: vscode.SymbolKind.Object,
+  array: vscode.SymbolKind.Array,
+  string: vscode.SymbolKind.String,
+  number: vscode.SymbolKind.Number,
+  boolean: vscode.SymbolKind.Boolean,
+  null: vscode.SymbolKind.Null,
+  variable: vscode.SymbolKind.Variable,
+  template: vscode.SymbolKind.Property,
+};
+
+function getSymbolName(node: TemplateOutlineNode): string {
+  switch (node.kind) {
+    case "section":
+      return `${node.inverted ? "^" : "#"}${node.name}`;
+    case "partial":
+      return `>${node.name}`;
+    default:
+      return node.name || '""';
+  }
+}
+
+function getSymbolKind(node: TemplateOutlineNode): vscode.SymbolKind {
+  switch (node.kind) {
+    case "section":
+      return vscode.SymbolKind.Namespace;
+    case "partial":
+      return vscode.SymbolKind.Module;
+    default:
+      return VALUE_SYMBOL_KINDS[node.valueKind || "template"];
+  }
+}
+
+export class MustacheJSONDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  private outlineBuilder: TemplateOutlineBuilder;
+
+  constructor() {
+    this.outlineBuilder = new TemplateOutlineBuilder();
+  }
+
+  /**
+   * Provide the template's JSON keys with its sections and partials nested between them
+   */
+  public provideDocumentSymbols(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.DocumentSymbol[] {
+    return this.outlineBuilder.build(document.getText()).map((node) => this.createSymbol(document, node));
+  }
+
+  private createSymbol(document: vscode.TextDocument, node: TemplateOutlineNode): vscode.DocumentSymbol {
+    const range = new vscode.Range(document.positionAt(node.start), document.positionAt(node.end));
+    const selectionRange = new vscode.Range(document.positionAt(node.selectionStart), document.positionAt(node.selectionEnd));
+    const symbol = new vscode.DocumentSymbol(getSymbolName(node), this.getDetail(node), getSymbolKind(node), range, selectionRange);
+
+    symbol.children = node.children.map((child) => this.createSymbol(document, child));
+    return symbol;
+  }
+
+  private getDetail(node: TemplateOutlineNode): string {
+    if (node.kind === "section") {
+      return node.inverted ? "inverted section" : "section";
+    }
+    if (node.kind === "partial") {
+      return "partial";
+    }
+
+    const value = node.value ?? node.valueKind ?? "";
+    return value.length > MAX_DETAIL_LENGTH ? `${value.substring(0, MAX_DETAIL_LENGTH)}…` : value;
+  }
+}
+
+export class MustacheJSONWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider, vscode.Disposable {
+  private index: WorkspaceSymbolIndex;
+
+  constructor() {
+    this.index = new WorkspaceSymbolIndex();
+    this.index.build();
+  }
+
+  /**
+   * Provide the JSON keys, sections and partials of every template in the workspace that match the query
+   */
+  public provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): vscode.SymbolInformation[] {
+    return this.index
+      .query(query, token)
+      .map(
+        (symbol) =>
+          new vscode.SymbolInformation(
+            getSymbolName(symbol.node),
+            getSymbolKind(symbol.node),
+            symbol.container ? getSymbolName(symbol.container) : "",
+            new vscode.Location(symbol.uri, symbol.range)
+          )
+      );
+  }
+
+  public dispose(): void {
+    this.index.dispose();
+  }
+}
@@ -0,0 +1,118 @@
+import * as vscode from "vscode";
+import { TemplateParser } from "../services/templateParser";
+import { MustacheTagType } from "../core/types";
+import { collectSections } from "../utils/astUtils";
+import { maskMustacheTags } from "../utils/jsonPositionUtils";
+
+export class MustacheJSONFoldingRangeProvider implements vscode.FoldingRangeProvider {
+  private parser: TemplateParser;
+
+  constructor() {
+    this.parser = new TemplateParser();
+  }
+
+  /**
+   * Fold sections, multi-line comments and JSON objects and arrays, with the tags masked so they do not confuse the brackets
+   */
+  public provideFoldingRanges(
+    document: vscode.TextDocument,
+    context: vscode.FoldingContext,
+    token: vscode.CancellationToken
+  ): vscode.FoldingRange[] {
+    const text = document.getText();
+    const ast = this.parser.parse(text);
+    const ranges: vscode.FoldingRange[] = [];
+
+    const addRange = (start: number, end: number, kind?: vscode.FoldingRangeKind) => {
+      const range = this.createRange(document, start, end, kind);
+      if (range) {
+        ranges.push(range);
+      }
+    };
+
+    for (const section of collectSections(ast)) {
+      if (section.closeTag) {
+        addRange(section.openTag.start, section.closeTag.start);
+      }
+    }
+
+    for (const tag of ast.tags) {
+      if (tag.type === MustacheTagType.Comment) {
+        addRange(tag.start, tag.end, vscode.FoldingRangeKind.Comment);
+      }
+    }
+
+    for (const container of this.findContainers(maskMustacheTags(text, ast))) {
+      addRange(container.start, container.end);
+    }
+
+    return this.keepOuterRanges(ranges);
+  }
+
+  /**
+   * Find each matched pair of JSON brackets outside strings
+   */
+  private findContainers(masked: string): Array<{ start: number; end: number }> {
+    const containers: Array<{ start: number; end: number }> = [];
+    const stack: Array<{ char: string; start: number }> = [];
+
+    for (let i = 0; i < masked.length; i++) {
+      const char = masked[i];
+
+      if (char === '"') {
+        for (i++; i < masked.length && masked[i] !== '"'; i++) {
+          if (masked[i] === "\\") {
+            i++;
+          }
+        }
+      } else if (char === "{" || char === "[") {
+        stack.push({ char, start: i });
+      } else if (char === "}" || char === "]") {
+        // Sections can leave brackets unbalanced; close the nearest matching opener
+        const opener = char === "}" ? "{" : "[";
+        for (let depth = stack.length - 1; depth >= 0; depth--) {
+          if (stack[depth].char === opener) {
+            containers.push({ start: stack[depth].start, end: i });
+            stack.length = depth;
+            break;
+          }
+        }
+      }
+    }
+
+    return containers;
+  }
+
+  /**
+   * Fold from the line of the start offset; a closer that begins its line stays visible
+   */
+  private createRange(
+    document: vscode.TextDocument,
+    start: number,
+    end: number,
+    kind?: vscode.FoldingRangeKind
+  ): vscode.FoldingRange | undefined {
+    const startLine = document.positionAt(start).line;
+    const endPosition = document.positionAt(end);
+    const closerStartsLine = !document.lineAt(endPosition.line).text.substring(0, endPosition.character).trim();
+    const endLine = closerStartsLine && kind !== vscode.FoldingRangeKind.Comment ? endPosition.line - 1 : endPosition.line;
+
+    return endLine > startLine ? new vscode.FoldingRange(startLine, endLine, kind) : undefined;
+  }
+
+  /**
+   * Keep one range per start line - the one reaching furthest, as sections and brackets often open on the same line
+   */
+  private keepOuterRanges(ranges: vscode.FoldingRange[]): vscode.FoldingRange[] {
+    const byStart = new Map<number, vscode.FoldingRange>();
+
+    for (const range of ranges) {
+      const existing = byStart.get(range.start);
+      if (!existing || range.end > existing.end) {
+        byStart.set(range.start, range);
+      }
+    }
+
+    return Array.from(byStart.values()).sort((a, b) => a.start - b.start);
+  }
+}
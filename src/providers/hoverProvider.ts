@@ -0,0 +1,237 @@
+import * as vscode from "vscode";
+import { DiagnosticsProvider } from "./diagnosticsProvider";
+import { ConfigurationManager } from "../core/config";
+import { ContextLoader } from "../services/contextLoader";
+import { EscapeService } from "../services/escapeService";
+import { PartialResolver } from "../services/partialResolver";
+import { TemplateParser } from "../services/templateParser";
+import { VariableResolver } from "../services/variableResolver";
+import { MustacheRootNode, MustacheSectionNode, MustacheTag, MustacheTagType, VariableResolution } from "../core/types";
+import { ERROR_CODE_DESCRIPTIONS } from "../core/constants";
+import { collectSections, findTagAt } from "../utils/astUtils";
+import { describeValueType, formatValuePreview } from "../utils/stringUtils";
+
+const MAX_VALUE_PREVIEW_LENGTH = 500;
+
+// Diagnostic codes written in text, e.g. in a comment or a commit message pasted into a template
+const ERROR_CODE_PATTERN = /\b[MJCR]\d{3}\b/;
+
+export class MustacheJSONHoverProvider implements vscode.HoverProvider {
+  private diagnosticsProvider: DiagnosticsProvider;
+  private configManager: ConfigurationManager;
+  private contextLoader: ContextLoader;
+  private escapeService: EscapeService;
+  private partialResolver: PartialResolver;
+  private parser: TemplateParser;
+  private resolver: VariableResolver;
+
+  constructor(diagnosticsProvider: DiagnosticsProvider) {
+    this.diagnosticsProvider = diagnosticsProvider;
+    this.configManager = ConfigurationManager.getInstance();
+    this.contextLoader = new ContextLoader();
+    this.escapeService = EscapeService.getInstance();
+    this.partialResolver = new PartialResolver();
+    this.parser = new TemplateParser();
+    this.resolver = new VariableResolver();
+  }
+
+  /**
+   * Describe the tag under the cursor and explain any diagnostic codes there
+   */
+  public async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Hover | undefined> {
+    const contents: vscode.MarkdownString[] = [];
+    let range: vscode.Range | undefined;
+
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+    const ast = this.parser.parse(text);
+    const tag = findTagAt(ast, offset);
+
+    if (tag && offset < tag.end) {
+      const markdown = await this.describeTag(document, text, ast, tag, offset);
+      if (markdown) {
+        contents.push(markdown);
+        range = new vscode.Range(document.positionAt(tag.start), document.positionAt(tag.end));
+      }
+    }
+
+    const codes = this.getDiagnosticCodesAt(document, position);
+    const codeRange = document.getWordRangeAtPosition(position, ERROR_CODE_PATTERN);
+    if (codeRange) {
+      codes.add(document.getText(codeRange));
+      range = range || codeRange;
+    }
+
+    for (const code of codes) {
+      const markdown = this.describeCode(code);
+      if (markdown) {
+        contents.push(markdown);
+      }
+    }
+
+    return contents.length > 0 ? new vscode.Hover(contents, range) : undefined;
+  }
+
+  /**
+   * Describe what a tag does and what it resolves to with the active context
+   */
+  private async describeTag(
+    document: vscode.TextDocument,
+    text: string,
+    ast: MustacheRootNode,
+    tag: MustacheTag,
+    offset: number
+  ): Promise<vscode.MarkdownString | undefined> {
+    const source = text.substring(tag.start, tag.end);
+
+    if (tag.type === MustacheTagType.Partial) {
+      const templatePath = document.uri.scheme === "file" ? document.uri.fsPath : undefined;
+      const filePath = await this.partialResolver.findPartialFile(tag.name, templatePath);
+      return new vscode.MarkdownString()
+        .appendMarkdown(`**Partial** \`${source}\`\n\n`)
+        .appendMarkdown(filePath ? `Includes \`${vscode.workspace.asRelativePath(filePath)}\`` : "Partial file not found");
+    }
+
+    if (tag.type === MustacheTagType.Comment || tag.type === MustacheTagType.Delimiter) {
+      return undefined;
+    }
+
+    const context = await this.contextLoader.loadContext();
+    const resolution = this.resolver.resolveAt(text, offset, context, ast);
+    const markdown = new vscode.MarkdownString();
+
+    if (tag.type === MustacheTagType.Variable || tag.type === MustacheTagType.Unescaped) {
+      markdown.appendMarkdown(`**Variable** \`${source}\` - ${this.describeEscaping(tag)}\n\n`);
+    } else {
+      const section = collectSections(ast).find((node) => node.openTag === tag || node.closeTag === tag);
+      const label = section?.inverted ? "Inverted section" : "Section";
+      markdown.appendMarkdown(`**${tag.type === MustacheTagType.Closing ? `End of ${label.toLowerCase()}` : label}** \`${source}\`\n\n`);
+      this.appendSectionBehaviour(markdown, resolution, section, context !== undefined);
+    }
+
+    this.appendResolution(markdown, resolution, context !== undefined);
+
+    if (resolution.resolved && (tag.type === MustacheTagType.Variable || tag.type === MustacheTagType.Unescaped)) {
+      markdown.appendMarkdown("Renders:\n\n").appendCodeblock(this.renderValue(tag, resolution.resolved.value), "text");
+    } else if (resolution.resolved) {
+      markdown.appendCodeblock(formatValuePreview(resolution.resolved.value, MAX_VALUE_PREVIEW_LENGTH, 2), "json");
+    }
+
+    return markdown;
+  }
+
+  /**
+   * Describe where a name is looked up and where it was found
+   */
+  private appendResolution(markdown: vscode.MarkdownString, resolution: VariableResolution, hasContext: boolean): void {
+    const lookups = resolution.candidates.map((candidate) => `\`${candidate.path}\``).join(", then ");
+    const { resolved } = resolution;
+
+    if (!hasContext) {
+      markdown.appendMarkdown(`Looked up as ${lookups}. Select a context file to see its value.\n\n`);
+    } else if (resolved) {
+      markdown.appendMarkdown(`Resolves to \`${resolved.contextPath}\` (${describeValueType(resolved.value)})\n\n`);
+      if (resolved !== resolution.candidates[0]) {
+        markdown.appendMarkdown(`Looked up as ${lookups}\n\n`);
+      }
+    } else {
+      markdown.appendMarkdown(`Not found in the context - looked up as ${lookups}\n\n`);
+    }
+  }
+
+  /**
+   * Describe how many times a section renders with the current value
+   */
+  private appendSectionBehaviour(
+    markdown: vscode.MarkdownString,
+    resolution: VariableResolution,
+    section: MustacheSectionNode | undefined,
+    hasContext: boolean
+  ): void {
+    if (!hasContext || !section) {
+      return;
+    }
+
+    const value = resolution.resolved?.value;
+    const isEmpty = !value || (Array.isArray(value) && value.length === 0);
+    let behaviour: string;
+
+    if (section.inverted) {
+      behaviour = isEmpty ? "Renders - the value is empty or falsy" : "Skipped - the value is truthy";
+    } else if (Array.isArray(value)) {
+      behaviour = value.length === 0 ? "Skipped - the list is empty" : `Repeats ${value.length} ${value.length === 1 ? "time" : "times"}`;
+    } else if (isEmpty) {
+      behaviour = `Skipped - the value is ${value === undefined ? "missing" : JSON.stringify(value)}`;
+    } else if (typeof value === "object") {
+      behaviour = "Renders once with the object as its context";
+    } else {
+      behaviour = `Renders once - ${JSON.stringify(value)} is truthy`;
+    }
+
+    markdown.appendMarkdown(`${behaviour}\n\n`);
+  }
+
+  /**
+   * Say how a variable tag's value is escaped
+   */
+  private describeEscaping(tag: MustacheTag): string {
+    if (tag.type === MustacheTagType.Unescaped) {
+      return "raw, not escaped";
+    }
+
+    const strategy = this.configManager.getConfig().escapeStrategy;
+    return strategy === "none" ? 'not escaped (escape strategy "none")' : `escaped with the "${strategy}" strategy`;
+  }
+
+  /**
+   * Render a value the way the tag would
+   */
+  private renderValue(tag: MustacheTag, value: any): string {
+    if (value === null || value === undefined || typeof value === "function") {
+      return "";
+    }
+
+    if (tag.type === MustacheTagType.Unescaped) {
+      return String(value);
+    }
+
+    try {
+      return this.escapeService.getEscapeFunction()(String(value));
+    } catch {
+      return String(value); // A broken custom escape function is reported when rendering
+    }
+  }
+
+  /**
+   * Get the codes of this extension's diagnostics at a position
+   */
+  private getDiagnosticCodesAt(document: vscode.TextDocument, position: vscode.Position): Set<string> {
+    const codes = new Set<string>();
+
+    for (const diagnostic of this.diagnosticsProvider.getDiagnostics(document.uri)) {
+      if (typeof diagnostic.code === "string" && diagnostic.range.contains(position)) {
+        codes.add(diagnostic.code);
+      }
+    }
+
+    return codes;
+  }
+
+  /**
+   * Explain a diagnostic code with an example
+   */
+  private describeCode(code: string): vscode.MarkdownString | undefined {
+    const description = ERROR_CODE_DESCRIPTIONS[code];
+    if (!description) {
+      return undefined;
+    }
+
+    return new vscode.MarkdownString()
+      .appendMarkdown(`**${code}: ${description.title}**\n\n${description.description}\n\n`)
+      .appendCodeblock(description.example, "handlebars");
+  }
+}
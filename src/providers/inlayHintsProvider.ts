@@ -0,0 +1,80 @@
+import * as vscode from "vscode";
+import { ConfigurationManager } from "../core/config";
+import { ContextLoader } from "../services/contextLoader";
+import { VariableResolver } from "../services/variableResolver";
+import { MustacheTagType, VariableResolution } from "../core/types";
+import { formatValuePreview } from "../utils/stringUtils";
+
+const MAX_VALUE_PREVIEW_LENGTH = 30;
+
+export class MustacheJSONInlayHintsProvider implements vscode.InlayHintsProvider, vscode.Disposable {
+  private configManager: ConfigurationManager;
+  private contextLoader: ContextLoader;
+  private resolver: VariableResolver;
+  private _onDidChangeInlayHints = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [];
+
+  public readonly onDidChangeInlayHints = this._onDidChangeInlayHints.event;
+
+  constructor() {
+    this.configManager = ConfigurationManager.getInstance();
+    this.contextLoader = new ContextLoader();
+    this.resolver = new VariableResolver();
+
+    // The values come from the context file, and the hints can be toggled
+    this.disposables.push(
+      this.configManager.onConfigChanged(() => this._onDidChangeInlayHints.fire()),
+      this.configManager.onContextChanged(() => this._onDidChangeInlayHints.fire())
+    );
+  }
+
+  /**
+   * Show the value each variable tag renders after it; inside lists, the first item's value and how many items follow
+   */
+  public async provideInlayHints(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    token: vscode.CancellationToken
+  ): Promise<vscode.InlayHint[]> {
+    if (!this.configManager.getConfig().showInlayHints) {
+      return [];
+    }
+
+    const context = await this.contextLoader.loadContext();
+    if (!context) {
+      return [];
+    }
+
+    const start = document.offsetAt(range.start);
+    const end = document.offsetAt(range.end);
+    const hints: vscode.InlayHint[] = [];
+
+    for (const resolution of this.resolver.resolveTags(document.getText(), context)) {
+      const tag = resolution.tag!;
+      const isVariable = tag.type === MustacheTagType.Variable || tag.type === MustacheTagType.Unescaped;
+      if (!isVariable || !resolution.resolved || tag.end < start || tag.start > end) {
+        continue;
+      }
+
+      const hint = new vscode.InlayHint(document.positionAt(tag.end), this.getLabel(resolution));
+      hint.paddingLeft = true;
+      hint.tooltip = resolution.resolved.contextPath;
+      hints.push(hint);
+    }
+
+    return hints;
+  }
+
+  private getLabel(resolution: VariableResolution): string {
+    const value = resolution.resolved!.value;
+    const label = `= ${typeof value === "function" ? "lambda" : formatValuePreview(value, MAX_VALUE_PREVIEW_LENGTH)}`;
+    const list = resolution.scopes.find((scope) => scope.items !== undefined);
+
+    return list && list.items! > 1 ? `${label} (+${list.items! - 1} more)` : label;
+  }
+
+  public dispose(): void {
+    this._onDidChangeInlayHints.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
@@ -0,0 +1,89 @@
+import * as vscode from "vscode";
+import { ContextReferenceFinder } from "../services/referenceFinder";
+
+// Characters a renamed key cannot contain and still be written as a tag name
+const INVALID_KEY_NAME = /[\s.{}]|^[#^/>&!=]/;
+
+export class MustacheJSONReferenceProvider implements vscode.ReferenceProvider {
+  private referenceFinder: ContextReferenceFinder;
+
+  constructor() {
+    this.referenceFinder = new ContextReferenceFinder();
+  }
+
+  /**
+   * Find every tag and context file key referring to the context key at a position
+   */
+  public async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Location[]> {
+    const target = await this.referenceFinder.getReferenceAt(document, position);
+    if (!target) {
+      return [];
+    }
+
+    const groups = await this.referenceFinder.findReferences(target.path);
+
+    return groups
+      .filter((group) => context.includeDeclaration || !group.isContextFile)
+      .flatMap((group) => group.ranges.map((range) => new vscode.Location(group.uri, range)));
+  }
+}
+
+export class MustacheJSONRenameProvider implements vscode.RenameProvider {
+  private referenceFinder: ContextReferenceFinder;
+
+  constructor() {
+    this.referenceFinder = new ContextReferenceFinder();
+  }
+
+  /**
+   * Check a context key is under the cursor and offer its name for editing
+   */
+  public async prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<{ range: vscode.Range; placeholder: string }> {
+    const target = await this.referenceFinder.getReferenceAt(document, position);
+    if (!target) {
+      throw new Error("Only context keys in tag names and in the context file can be renamed");
+    }
+
+    return { range: target.range, placeholder: document.getText(target.range) };
+  }
+
+  /**
+   * Rename a context key in every template tag that refers to it and in the context files, in one edit
+   */
+  public async provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string,
+    token: vscode.CancellationToken
+  ): Promise<vscode.WorkspaceEdit | undefined> {
+    if (!newName || INVALID_KEY_NAME.test(newName)) {
+      throw new Error(`"${newName}" cannot be used in a tag name - avoid whitespace, dots, braces and a leading tag sigil`);
+    }
+
+    const target = await this.referenceFinder.getReferenceAt(document, position);
+    if (!target) {
+      return undefined;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const groups = await this.referenceFinder.findReferences(target.path);
+
+    for (const group of groups) {
+      const text = group.isContextFile ? JSON.stringify(newName).slice(1, -1) : newName;
+      for (const range of group.ranges) {
+        edit.replace(group.uri, range, text);
+      }
+    }
+
+    return edit;
+  }
+}
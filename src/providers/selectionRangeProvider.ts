@@ -0,0 +1,183 @@
+import * as vscode from "vscode";
+import { TemplateParser } from "../services/templateParser";
+import { MustacheRootNode, MustacheTagType } from "../core/types";
+import { collectSections, findTagAt, getSectionContentRange } from "../utils/astUtils";
+import { maskMustacheTags } from "../utils/jsonPositionUtils";
+
+interface OffsetRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * An object or array being scanned, with the item read so far
+ */
+interface ContainerFrame {
+  char: "{" | "[";
+  start: number;
+  itemStart: number;
+  colon?: number; // Offset of the colon of the current object member
+}
+
+export class MustacheJSONSelectionRangeProvider implements vscode.SelectionRangeProvider {
+  private parser: TemplateParser;
+
+  constructor() {
+    this.parser = new TemplateParser();
+  }
+
+  /**
+   * Grow the selection from a tag name to the whole tag, the section body, the whole section, then the JSON value, member and container
+   */
+  public provideSelectionRanges(
+    document: vscode.TextDocument,
+    positions: vscode.Position[],
+    token: vscode.CancellationToken
+  ): vscode.SelectionRange[] {
+    const text = document.getText();
+    const ast = this.parser.parse(text);
+    const padding = this.findPadding(text, ast);
+    const jsonRanges = this.findJSONRanges(maskMustacheTags(text, ast), padding);
+
+    return positions.map((position) => {
+      const offset = document.offsetAt(position);
+      const candidates = [...this.getTemplateRanges(ast, offset, padding), ...jsonRanges].filter(
+        (range) => range.start <= offset && offset <= range.end
+      );
+
+      let selectionRange: vscode.SelectionRange | undefined;
+      for (const range of this.nestRanges(candidates).reverse()) {
+        selectionRange = new vscode.SelectionRange(
+          new vscode.Range(document.positionAt(range.start), document.positionAt(range.end)),
+          selectionRange
+        );
+      }
+
+      return selectionRange || new vscode.SelectionRange(new vscode.Range(position, position));
+    });
+  }
+
+  /**
+   * Get the tag at an offset, its name, and the body and extent of each section around it
+   */
+  private getTemplateRanges(ast: MustacheRootNode, offset: number, padding: Uint8Array): OffsetRange[] {
+    const ranges: OffsetRange[] = [];
+    const tag = findTagAt(ast, offset);
+
+    if (tag) {
+      ranges.push({ start: tag.nameStart, end: tag.nameEnd }, { start: tag.start, end: tag.end });
+    }
+
+    for (const section of collectSections(ast)) {
+      if (section.closeTag) {
+        const body = getSectionContentRange(section);
+        ranges.push(this.trimRange(padding, body.start, body.end), { start: section.openTag.start, end: section.closeTag.end });
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Order ranges from smallest to largest, keeping only those that contain the previous one
+   */
+  private nestRanges(ranges: OffsetRange[]): OffsetRange[] {
+    const nested: OffsetRange[] = [];
+
+    for (const range of [...ranges].sort((a, b) => a.end - a.start - (b.end - b.start))) {
+      const previous = nested[nested.length - 1];
+      if (
+        !previous ||
+        (range.start <= previous.start && previous.end <= range.end && range.end - range.start > previous.end - previous.start)
+      ) {
+        nested.push(range);
+      }
+    }
+
+    return nested;
+  }
+
+  /**
+   * Find every JSON value, object member and container in the masked template. Unbalanced brackets left by sections are tolerated.
+   */
+  private findJSONRanges(masked: string, padding: Uint8Array): OffsetRange[] {
+    const ranges: OffsetRange[] = [];
+    const stack: ContainerFrame[] = [];
+
+    const closeItem = (frame: ContainerFrame, end: number) => {
+      const item = this.trimRange(padding, frame.itemStart, end);
+      if (item.end <= item.start) {
+        return;
+      }
+
+      ranges.push(item);
+      if (frame.colon !== undefined && frame.colon >= item.start) {
+        ranges.push(this.trimRange(padding, item.start, frame.colon), this.trimRange(padding, frame.colon + 1, item.end));
+      }
+    };
+
+    for (let i = 0; i < masked.length; i++) {
+      const char = masked[i];
+      const frame = stack[stack.length - 1];
+
+      if (char === '"') {
+        for (i++; i < masked.length && masked[i] !== '"'; i++) {
+          if (masked[i] === "\\") {
+            i++;
+          }
+        }
+      } else if (char === "{" || char === "[") {
+        stack.push({ char, start: i, itemStart: i + 1 });
+      } else if (char === "}" || char === "]") {
+        const opener = char === "}" ? "{" : "[";
+        for (let depth = stack.length - 1; depth >= 0; depth--) {
+          if (stack[depth].char === opener) {
+            closeItem(stack[depth], i);
+            ranges.push({ start: stack[depth].start, end: i + 1 });
+            stack.length = depth;
+            break;
+          }
+        }
+      } else if (frame && char === ",") {
+        closeItem(frame, i);
+        frame.itemStart = i + 1;
+        frame.colon = undefined;
+      } else if (frame && char === ":" && frame.char === "{") {
+        frame.colon = i;
+      }
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Mark the offsets a JSON node never starts or ends on: whitespace, and tags that do not stand for a value
+   */
+  private findPadding(text: string, ast: MustacheRootNode): Uint8Array {
+    const padding = new Uint8Array(text.length);
+
+    for (let i = 0; i < text.length; i++) {
+      padding[i] = /\s/.test(text[i]) ? 1 : 0;
+    }
+    for (const tag of ast.tags) {
+      if (tag.type !== MustacheTagType.Variable && tag.type !== MustacheTagType.Unescaped) {
+        padding.fill(1, tag.start, tag.end);
+      }
+    }
+
+    return padding;
+  }
+
+  /**
+   * Shrink a range past padding at both ends
+   */
+  private trimRange(padding: Uint8Array, start: number, end: number): OffsetRange {
+    while (start < end && padding[start]) {
+      start++;
+    }
+    while (end > start && padding[end - 1]) {
+      end--;
+    }
+    return { start, end };
+  }
+}
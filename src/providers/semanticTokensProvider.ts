@@ -0,0 +1,166 @@
+import * as vscode from "vscode";
+import { ConfigurationManager } from "../core/config";
+import { ContextLoader } from "../services/contextLoader";
+import { TemplateParser } from "../services/templateParser";
+import { VariableResolver } from "../services/variableResolver";
+import { MustacheNode, MustacheNodeType, MustacheRootNode, MustacheTag, MustacheTagType, VariableResolution } from "../core/types";
+import { collectSections } from "../utils/astUtils";
+
+// Token types and modifiers are declared under contributes.semanticTokenTypes/semanticTokenModifiers in package.json
+const TOKEN_TYPES = ["mustacheVariable", "mustacheSection", "mustacheInvertedSection", "mustachePartial", "comment", "keyword"];
+const TOKEN_MODIFIERS = ["raw", "unresolved", "unrendered"];
+
+export class MustacheJSONSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider, vscode.Disposable {
+  public static readonly legend = new vscode.SemanticTokensLegend(TOKEN_TYPES, TOKEN_MODIFIERS);
+
+  private configManager: ConfigurationManager;
+  private contextLoader: ContextLoader;
+  private parser: TemplateParser;
+  private resolver: VariableResolver;
+  private _onDidChangeSemanticTokens = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [];
+
+  public readonly onDidChangeSemanticTokens = this._onDidChangeSemanticTokens.event;
+
+  constructor() {
+    this.configManager = ConfigurationManager.getInstance();
+    this.contextLoader = new ContextLoader();
+    this.parser = new TemplateParser();
+    this.resolver = new VariableResolver();
+
+    // Resolution depends on the context file
+    this.disposables.push(this.configManager.onContextChanged(() => this._onDidChangeSemanticTokens.fire()));
+  }
+
+  /**
+   * Color tags by kind, escaping, and whether they resolve and render with the active context
+   */
+  public async provideDocumentSemanticTokens(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+  ): Promise<vscode.SemanticTokens> {
+    const builder = new vscode.SemanticTokensBuilder(MustacheJSONSemanticTokensProvider.legend);
+    const text = document.getText();
+    const ast = this.parser.parse(text);
+    const context = await this.contextLoader.loadContext();
+
+    const resolutions = new Map<MustacheTag, VariableResolution>(
+      this.resolver.resolveTags(text, context, ast).map((resolution) => [resolution.tag!, resolution])
+    );
+    const unrendered = context ? this.findUnrenderedTags(ast, resolutions) : new Set<MustacheTag>();
+    const sectionKinds = this.getSectionTokenTypes(ast);
+
+    for (const tag of ast.tags) {
+      if (tag.type === MustacheTagType.Comment) {
+        this.pushMultiline(builder, document, tag.start, tag.end, "comment", []);
+        continue;
+      }
+
+      if (tag.type === MustacheTagType.Delimiter) {
+        this.pushMultiline(builder, document, tag.start, tag.end, "keyword", []);
+        continue;
+      }
+
+      const type = tag.type === MustacheTagType.Partial ? "mustachePartial" : sectionKinds.get(tag) || "mustacheVariable";
+      const modifiers: string[] = [];
+
+      if (tag.type === MustacheTagType.Unescaped) {
+        modifiers.push("raw");
+      }
+      if (context && resolutions.has(tag) && tag.name !== "." && !resolutions.get(tag)!.resolved) {
+        modifiers.push("unresolved");
+      }
+      if (unrendered.has(tag)) {
+        modifiers.push("unrendered");
+      }
+
+      if (tag.nameEnd > tag.nameStart) {
+        this.pushMultiline(builder, document, tag.nameStart, tag.nameEnd, type, modifiers);
+      }
+    }
+
+    return builder.build();
+  }
+
+  /**
+   * Find the tags that render nothing: empty variables, skipped sections and everything inside them
+   */
+  private findUnrenderedTags(ast: MustacheRootNode, resolutions: Map<MustacheTag, VariableResolution>): Set<MustacheTag> {
+    const unrendered = new Set<MustacheTag>();
+
+    const visit = (nodes: MustacheNode[], rendered: boolean) => {
+      for (const node of nodes) {
+        if (node.type === MustacheNodeType.Section) {
+          const value = resolutions.get(node.openTag)?.resolved?.value;
+          const renders = rendered && (node.inverted ? this.isFalsy(value) : !this.isFalsy(value));
+          if (!renders) {
+            unrendered.add(node.openTag);
+            if (node.closeTag) {
+              unrendered.add(node.closeTag);
+            }
+          }
+          visit(node.children, renders);
+        } else if (node.type === MustacheNodeType.Variable) {
+          const value = resolutions.get(node.tag)?.resolved?.value;
+          if (!rendered || value === undefined || value === null || value === "") {
+            unrendered.add(node.tag);
+          }
+        } else if (node.type === MustacheNodeType.Partial && !rendered) {
+          unrendered.add(node.tag);
+        }
+      }
+    };
+
+    visit(ast.children, true);
+    return unrendered;
+  }
+
+  /**
+   * Give closing tags the type of the section they close
+   */
+  private getSectionTokenTypes(ast: MustacheRootNode): Map<MustacheTag, string> {
+    const types = new Map<MustacheTag, string>();
+
+    for (const section of collectSections(ast)) {
+      const type = section.inverted ? "mustacheInvertedSection" : "mustacheSection";
+      types.set(section.openTag, type);
+      if (section.closeTag) {
+        types.set(section.closeTag, type);
+      }
+    }
+
+    return types;
+  }
+
+  /**
+   * Push a token, split per line as semantic tokens cannot span lines
+   */
+  private pushMultiline(
+    builder: vscode.SemanticTokensBuilder,
+    document: vscode.TextDocument,
+    start: number,
+    end: number,
+    type: string,
+    modifiers: string[]
+  ): void {
+    const startPosition = document.positionAt(start);
+    const endPosition = document.positionAt(end);
+
+    for (let line = startPosition.line; line <= endPosition.line; line++) {
+      const from = line === startPosition.line ? startPosition.character : 0;
+      const to = line === endPosition.line ? endPosition.character : document.lineAt(line).text.length;
+      if (to > from) {
+        builder.push(new vscode.Range(line, from, line, to), type, modifiers);
+      }
+    }
+  }
+
+  private isFalsy(value: any): boolean {
+    return !value || (Array.isArray(value) && value.length === 0);
+  }
+
+  public dispose(): void {
+    this._onDidChangeSemanticTokens.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
@@ -0,0 +1,319 @@
+import {
+  BranchAssignment,
+  BranchCounterexample,
+  BranchState,
+  MustacheNode,
+  MustacheNodeType,
+  TemplateContext,
+  ValidationError,
+} from "../core/types";
+import { PERFORMANCE_LIMITS } from "../core/constants";
+import { TemplateParser } from "./templateParser";
+import { TemplateRenderer } from "./templateRenderer";
+import { EscapeService } from "./escapeService";
+import { RenderSourceMap } from "./sourceMap";
+import { JSONSyntaxValidator } from "../validators/json/syntaxValidator";
+import { isSeparatorSection } from "../utils/astUtils";
+
+// Placeholder for {{variables}} - valid inside a string, as a bare value and as a key
+const SAMPLE_VALUE = 1;
+
+const STATE_WEIGHTS: { [state in BranchState]: number } = {
+  [BranchState.Absent]: 0,
+  [BranchState.Once]: 1,
+  [BranchState.Repeated]: 2,
+};
+
+/**
+ * The context keys read directly inside one frame (the root context or a section item)
+ */
+interface BranchScope {
+  branches: Map<string, BranchVariable>;
+  variables: Set<string>;
+}
+
+/**
+ * A context value that decides which section branches render
+ */
+interface BranchVariable {
+  name: string;
+  path: string;
+  parent?: BranchVariable;
+  item: BranchScope;
+  usedAsSection: boolean; // Appears as {{#name}}, not only as {{^name}}
+  scalarItems: boolean; // Items are rendered with {{.}}
+  separator: boolean; // A {{#comma}},{{/comma}}-style flag set on every item except the last
+}
+
+/**
+ * Proves that a template renders valid JSON for every shape of its context, or finds the smallest context that does not.
+ * Every section is tried absent, once and repeated; variables are filled with a neutral sample value.
+ */
+export class BranchAnalyzer {
+  private parser = new TemplateParser();
+  private renderer = new TemplateRenderer();
+  private escapeService = EscapeService.getInstance();
+  private jsonValidator = new JSONSyntaxValidator();
+
+  /**
+   * Find branch combinations that render invalid JSON, smallest first, one per template location
+   */
+  public analyze(template: string, partials?: { [name: string]: string }): BranchCounterexample[] {
+    const ast = this.parser.parse(template);
+    const root = this.createScope();
+    const variables: BranchVariable[] = [];
+
+    this.collectBranches(ast.children, root, undefined, variables);
+
+    const counterexamples = new Map<string, BranchCounterexample>();
+    const seenContexts = new Set<string>();
+    let rendered = 0;
+
+    this.enumerateAssignments(variables, PERFORMANCE_LIMITS.MAX_BRANCH_COMBINATIONS, (states) => {
+      const context = this.buildScope(root, states, 0, 1);
+      const key = JSON.stringify(context);
+
+      // Different assignments of an absent section's children produce the same context
+      if (seenContexts.has(key)) {
+        return true;
+      }
+      seenContexts.add(key);
+      rendered++;
+
+      const error = this.findJSONError(template, context, partials);
+      if (error) {
+        const location = `${error.line}:${error.column}`;
+        if (!counterexamples.has(location)) {
+          counterexamples.set(location, { assignments: this.describeAssignments(variables, states), context, error });
+        }
+      }
+
+      return rendered < PERFORMANCE_LIMITS.MAX_BRANCH_COMBINATIONS;
+    });
+
+    return Array.from(counterexamples.values());
+  }
+
+  /**
+   * Build the branch model from the section tree
+   */
+  private collectBranches(nodes: MustacheNode[], scope: BranchScope, owner: BranchVariable | undefined, variables: BranchVariable[]): void {
+    for (const node of nodes) {
+      if (node.type === MustacheNodeType.Variable) {
+        if (node.name === "." && owner) {
+          owner.scalarItems = true;
+        } else if (node.name !== ".") {
+          scope.variables.add(node.name);
+        }
+        continue;
+      }
+
+      if (node.type !== MustacheNodeType.Section) {
+        continue;
+      }
+
+      let variable = scope.branches.get(node.name);
+      if (!variable) {
+        variable = {
+          name: node.name,
+          path: owner ? `${owner.path}[].${node.name}` : node.name,
+          parent: owner,
+          item: this.createScope(),
+          usedAsSection: false,
+          scalarItems: false,
+          separator: !!owner && isSeparatorSection(node),
+        };
+        scope.branches.set(node.name, variable);
+        variables.push(variable);
+      } else {
+        variable.separator = variable.separator && isSeparatorSection(node);
+      }
+
+      if (node.inverted) {
+        // Inverted sections render with the current frame
+        this.collectBranches(node.children, scope, owner, variables);
+      } else {
+        variable.usedAsSection = true;
+        this.collectBranches(node.children, variable.item, variable, variables);
+      }
+    }
+  }
+
+  /**
+   * Call back with every assignment of branch states in order of increasing size, until the callback returns false
+   */
+  private enumerateAssignments(
+    variables: BranchVariable[],
+    limit: number,
+    callback: (states: Map<BranchVariable, BranchState>) => boolean
+  ): void {
+    const free = variables.filter((variable) => !variable.separator);
+    const states = new Map<BranchVariable, BranchState>();
+    let remainingCalls = limit * 4; // Bound the search when most assignments collapse into duplicates
+    let stopped = false;
+
+    const assign = (index: number, remainingWeight: number): void => {
+      if (stopped) {
+        return;
+      }
+
+      if (index === free.length) {
+        if (remainingWeight === 0) {
+          stopped = !callback(states) || --remainingCalls <= 0;
+        }
+        return;
+      }
+
+      const variable = free[index];
+      const parentState = variable.parent ? states.get(variable.parent) : undefined;
+
+      for (const state of this.getDomain(variable, parentState)) {
+        const weight = STATE_WEIGHTS[state];
+        if (weight <= remainingWeight && remainingWeight - weight <= 2 * (free.length - index - 1)) {
+          states.set(variable, state);
+          assign(index + 1, remainingWeight - weight);
+        }
+      }
+      states.delete(variable);
+    };
+
+    for (let weight = 0; weight <= 2 * free.length && !stopped; weight++) {
+      assign(0, weight);
+    }
+  }
+
+  /**
+   * Get the states worth trying for a branch
+   */
+  private getDomain(variable: BranchVariable, parentState?: BranchState): BranchState[] {
+    // Nothing inside an absent section renders
+    if (parentState === BranchState.Absent) {
+      return [BranchState.Absent];
+    }
+
+    // A section whose items are never read cannot tell one item from many, e.g. {{#flag}}true{{/flag}}
+    if (!this.isReadAsList(variable)) {
+      return [BranchState.Absent, BranchState.Once];
+    }
+
+    return [BranchState.Absent, BranchState.Once, BranchState.Repeated];
+  }
+
+  /**
+   * Build the synthetic context object for one frame
+   */
+  private buildScope(scope: BranchScope, states: Map<BranchVariable, BranchState>, index: number, count: number): TemplateContext {
+    const context: TemplateContext = {};
+
+    for (const name of scope.variables) {
+      this.setPath(context, name, SAMPLE_VALUE);
+    }
+
+    for (const variable of scope.branches.values()) {
+      this.setPath(context, variable.name, this.buildBranchValue(variable, states, index, count));
+    }
+
+    return context;
+  }
+
+  /**
+   * Build the context value for a branch in the given state
+   */
+  private buildBranchValue(variable: BranchVariable, states: Map<BranchVariable, BranchState>, index: number, count: number): any {
+    if (variable.separator) {
+      const renders = index < count - 1;
+      return variable.usedAsSection ? renders : !renders;
+    }
+
+    const state = states.get(variable) || BranchState.Absent;
+
+    if (state === BranchState.Absent) {
+      return false;
+    }
+
+    if (!variable.usedAsSection || this.isEmptyScope(variable.item)) {
+      if (state === BranchState.Once) {
+        return variable.scalarItems ? SAMPLE_VALUE : true;
+      }
+      return [SAMPLE_VALUE, SAMPLE_VALUE];
+    }
+
+    const itemCount = state === BranchState.Once ? 1 : 2;
+    const items: TemplateContext[] = [];
+    for (let i = 0; i < itemCount; i++) {
+      items.push(this.buildScope(variable.item, states, i, itemCount));
+    }
+
+    return items;
+  }
+
+  /**
+   * Render a synthetic context and return the first JSON error, mapped onto the template
+   */
+  private findJSONError(template: string, context: TemplateContext, partials?: { [name: string]: string }): ValidationError | undefined {
+    let rendered;
+    try {
+      rendered = this.renderer.render(template, context, partials, this.escapeService.getEscapeFunction());
+    } catch {
+      return undefined; // Unrenderable templates are reported by the Mustache validators
+    }
+
+    const error = this.jsonValidator.validateSync(rendered.output).find((e) => e.severity === "error");
+    if (!error) {
+      return undefined;
+    }
+
+    return new RenderSourceMap(template, rendered.output, rendered.segments).mapValidationError(error);
+  }
+
+  /**
+   * List the branch states that make up a counterexample, skipping branches that did not render
+   */
+  private describeAssignments(variables: BranchVariable[], states: Map<BranchVariable, BranchState>): BranchAssignment[] {
+    return variables
+      .filter((variable) => !variable.separator && (!variable.parent || states.get(variable.parent) !== BranchState.Absent))
+      .map((variable) => ({
+        name: variable.name,
+        path: variable.path,
+        state: states.get(variable) || BranchState.Absent,
+      }));
+  }
+
+  /**
+   * Set a dotted path on a context object
+   */
+  private setPath(context: TemplateContext, path: string, value: any): void {
+    const names = path.split(".");
+    let target = context;
+
+    for (const name of names.slice(0, -1)) {
+      if (typeof target[name] !== "object" || target[name] === null || Array.isArray(target[name])) {
+        target[name] = {};
+      }
+      target = target[name];
+    }
+
+    target[names[names.length - 1]] = value;
+  }
+
+  /**
+   * Create an empty frame
+   */
+  private createScope(): BranchScope {
+    return { branches: new Map(), variables: new Set() };
+  }
+
+  /**
+   * Check whether a section reads its items, with {{.}} or names inside it
+   */
+  private isReadAsList(variable: BranchVariable): boolean {
+    return variable.usedAsSection && (variable.scalarItems || !this.isEmptyScope(variable.item));
+  }
+
+  /**
+   * Check whether a section's items are never read
+   */
+  private isEmptyScope(scope: BranchScope): boolean {
+    return scope.branches.size === 0 && scope.variables.size === 0;
+  }
+}
@@ -0,0 +1,23 @@
+import { TemplateContext } from "../core/types";
+import { ConfigurationManager } from "../core/config";
+
+export class ContextLoader {
+  private configManager: ConfigurationManager;
+
+  constructor() {
+    this.configManager = ConfigurationManager.getInstance();
+  }
+
+  /**
+   * Load the configured context file, or undefined when none is set or it cannot be parsed
+   */
+  public async loadContext(): Promise<TemplateContext | undefined> {
+    const contextInfo = await this.configManager.getContextFileInfo();
+
+    if (contextInfo && contextInfo.isValid && contextInfo.content) {
+      return contextInfo.content;
+    }
+
+    return undefined;
+  }
+}
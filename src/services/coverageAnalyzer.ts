@@ -0,0 +1,153 @@
+import {
+  ContextCoverage,
+  ContextFrame,
+  MustacheNode,
+  MustacheNodeType,
+  MustacheTag,
+  TemplateContext,
+  UnresolvedReference,
+} from "../core/types";
+import { TemplateParser } from "./templateParser";
+import { VariableResolver } from "./variableResolver";
+
+interface CoverageState {
+  unresolved: Map<MustacheTag, UnresolvedReference>;
+  readPaths: Set<string>; // Context paths looked up by sections and dotted names
+  renderedPaths: Set<string>; // Context paths rendered by variables - everything below them counts as read
+  resolvedSections: Set<MustacheTag>;
+}
+
+/**
+ * Walks a template against a concrete context the way Mustache renders it, recording which tags cannot be resolved
+ * and which context keys are never read
+ */
+export class ContextCoverageAnalyzer {
+  private parser = new TemplateParser();
+  private resolver = new VariableResolver();
+
+  /**
+   * Compare a template with a context
+   */
+  public analyze(template: string, context: TemplateContext): ContextCoverage {
+    const ast = this.parser.parse(template);
+    const state: CoverageState = { unresolved: new Map(), readPaths: new Set(), renderedPaths: new Set(), resolvedSections: new Set() };
+
+    this.walkNodes(ast.children, [{ view: context, path: "" }], state);
+
+    const unusedKeys = new Set<string>();
+    this.collectUnusedKeys(context, "", state, unusedKeys);
+
+    // A section missing from some items but present in others is an optional flag, e.g. {{#comma}} on all but the last
+    return {
+      unresolved: Array.from(state.unresolved.values()).filter((reference) => !state.resolvedSections.has(reference.tag)),
+      unusedKeys: Array.from(unusedKeys),
+    };
+  }
+
+  /**
+   * Visit the nodes Mustache would render with these frames
+   */
+  private walkNodes(nodes: MustacheNode[], frames: ContextFrame[], state: CoverageState): void {
+    for (const node of nodes) {
+      if (node.type === MustacheNodeType.Variable) {
+        const lookup = this.resolver.lookup(node.name, frames);
+        if (lookup.found) {
+          state.renderedPaths.add(this.normalizePath(lookup.path));
+        } else {
+          this.recordUnresolved(node.tag, false, frames, state);
+        }
+      } else if (node.type === MustacheNodeType.Section) {
+        const lookup = this.resolver.lookup(node.name, frames);
+        const value = lookup.value;
+
+        if (!lookup.found) {
+          this.recordUnresolved(node.openTag, true, frames, state);
+        } else {
+          state.readPaths.add(this.normalizePath(lookup.path));
+          state.resolvedSections.add(node.openTag);
+        }
+
+        // Only follow the branches this context renders - other branches have no frame to resolve against
+        const isEmpty = !value || (Array.isArray(value) && value.length === 0);
+        if (node.inverted) {
+          if (isEmpty) {
+            this.walkNodes(node.children, frames, state);
+          }
+        } else if (isEmpty) {
+          continue;
+        } else if (Array.isArray(value)) {
+          value.forEach((item, index) => {
+            this.walkNodes(node.children, [...frames, { view: item, path: `${lookup.path}[${index}]` }], state);
+          });
+        } else if (typeof value === "object" || typeof value === "string" || typeof value === "number") {
+          this.walkNodes(node.children, [...frames, { view: value, path: lookup.path }], state);
+        } else if (typeof value !== "function") {
+          this.walkNodes(node.children, frames, state);
+        }
+      }
+
+      // Partials are not loaded here, so their tags are not checked
+    }
+  }
+
+  /**
+   * Record the first frame a tag could not be resolved from
+   */
+  private recordUnresolved(tag: MustacheTag, isSection: boolean, frames: ContextFrame[], state: CoverageState): void {
+    if (!state.unresolved.has(tag)) {
+      state.unresolved.set(tag, { tag, isSection, scopePath: frames[frames.length - 1].path });
+    }
+  }
+
+  /**
+   * Collect the topmost context keys that nothing in the template reads
+   */
+  private collectUnusedKeys(value: any, path: string, state: CoverageState, unusedKeys: Set<string>): void {
+    if (Array.isArray(value)) {
+      value.forEach((item) => this.collectUnusedKeys(item, `${path}[]`, state, unusedKeys));
+      return;
+    }
+
+    if (value === null || typeof value !== "object") {
+      return;
+    }
+
+    for (const key of Object.keys(value)) {
+      const keyPath = path ? `${path}.${key}` : key;
+
+      if (this.isRead(keyPath, state)) {
+        this.collectUnusedKeys(value[key], keyPath, state, unusedKeys);
+      } else {
+        unusedKeys.add(keyPath);
+      }
+    }
+  }
+
+  /**
+   * Check whether a key, something below it, or something rendering it whole is read
+   */
+  private isRead(keyPath: string, state: CoverageState): boolean {
+    const isWithin = (path: string, parent: string) => path === parent || path.startsWith(`${parent}.`) || path.startsWith(`${parent}[`);
+
+    for (const path of state.readPaths) {
+      if (isWithin(path, keyPath)) {
+        return true;
+      }
+    }
+
+    for (const path of state.renderedPaths) {
+      if (isWithin(path, keyPath) || isWithin(keyPath, path)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Collapse array indices so every item shares one path, e.g. "users[1].name" -> "users[].name"
+   */
+  private normalizePath(path: string): string {
+    return path.replace(/\[\d+\]/g, "[]");
+  }
+}
@@ -0,0 +1,124 @@
+import * as vscode from "vscode";
+import * as Mustache from "mustache";
+import { EscapeFunction, EscapeStrategy } from "../core/types";
+import { ConfigurationManager } from "../core/config";
+
+// Webpack rewrites require(); workspace modules must be loaded with Node's own require at runtime
+declare const __non_webpack_require__: NodeRequire | undefined;
+const nodeRequire: NodeRequire = typeof __non_webpack_require__ === "function" ? __non_webpack_require__ : require;
+
+const BUILT_IN_ESCAPE_FUNCTIONS: { [strategy in Exclude<EscapeStrategy, "custom">]: EscapeFunction } = {
+  html: (value) => Mustache.escape(value),
+  "json-string": (value) => JSON.stringify(value).slice(1, -1),
+  none: (value) => value,
+};
+
+/**
+ * Resolves the configured escape strategy for {{variable}} tags.
+ * Shared by everything that renders, so previews, hovers and validators escape alike.
+ */
+export class EscapeService {
+  private static instance: EscapeService;
+  private configManager: ConfigurationManager;
+  private customFunctions = new Map<string, EscapeFunction>();
+  private untrustedWarningShown = false;
+
+  private constructor() {
+    this.configManager = ConfigurationManager.getInstance();
+  }
+
+  /**
+   * Get the shared escape service
+   */
+  public static getInstance(): EscapeService {
+    if (!EscapeService.instance) {
+      EscapeService.instance = new EscapeService();
+    }
+    return EscapeService.instance;
+  }
+
+  /**
+   * Get the escape function for the configured strategy
+   */
+  public getEscapeFunction(): EscapeFunction {
+    const config = this.configManager.getConfig();
+
+    if (config.escapeStrategy !== "custom") {
+      return BUILT_IN_ESCAPE_FUNCTIONS[config.escapeStrategy] || BUILT_IN_ESCAPE_FUNCTIONS.html;
+    }
+
+    // Loading the module runs workspace code, which an untrusted workspace must not be able to do
+    if (!vscode.workspace.isTrusted) {
+      this.warnUntrusted();
+      return BUILT_IN_ESCAPE_FUNCTIONS.html;
+    }
+
+    if (!config.customEscapeFunction) {
+      throw new Error('Escape strategy is "custom" but mustacheJsonValidator.customEscapeFunction is not set');
+    }
+
+    return this.loadCustomFunction(this.configManager.resolveWorkspacePath(config.customEscapeFunction));
+  }
+
+  /**
+   * Get a key that changes whenever the escape strategy does, for render caches
+   */
+  public getCacheKey(): string {
+    const config = this.configManager.getConfig();
+    if (config.escapeStrategy !== "custom") {
+      return config.escapeStrategy;
+    }
+    return vscode.workspace.isTrusted ? `custom:${config.customEscapeFunction}` : "html";
+  }
+
+  /**
+   * Forget loaded custom functions so edits to them are picked up
+   */
+  public clearCache(): void {
+    for (const modulePath of this.customFunctions.keys()) {
+      delete nodeRequire.cache[modulePath];
+    }
+    this.customFunctions.clear();
+  }
+
+  private warnUntrusted(): void {
+    if (this.untrustedWarningShown) {
+      return;
+    }
+    this.untrustedWarningShown = true;
+    vscode.window.showWarningMessage(
+      'The custom escape function is not loaded in an untrusted workspace; "html" escaping is used instead. Trust the workspace to use it.'
+    );
+  }
+
+  /**
+   * Load an escape function from a workspace module (module.exports = fn, export default fn or export function escape)
+   */
+  private loadCustomFunction(filePath: string): EscapeFunction {
+    let modulePath: string;
+    let exported: any;
+
+    try {
+      modulePath = nodeRequire.resolve(filePath);
+      const cached = this.customFunctions.get(modulePath);
+      if (cached) {
+        return cached;
+      }
+      exported = nodeRequire(modulePath);
+    } catch (error) {
+      throw new Error(
+        `Failed to load custom escape function from ${filePath}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+
+    const candidate = typeof exported === "function" ? exported : exported?.default || exported?.escape;
+    if (typeof candidate !== "function") {
+      throw new Error(`Custom escape module ${filePath} must export a function`);
+    }
+
+    const escape: EscapeFunction = (value) => String(candidate(value));
+    this.customFunctions.set(modulePath, escape);
+
+    return escape;
+  }
+}
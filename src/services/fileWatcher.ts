@@ -0,0 +1,48 @@
+import * as vscode from "vscode";
+import { FILE_EXTENSIONS, FILE_PATTERNS } from "../core/constants";
+
+/**
+ * Watches the workspace's template files on disk, reporting created and changed files together
+ */
+export class TemplateFileWatcher implements vscode.Disposable {
+  /** Glob matching every template file pattern */
+  public static readonly GLOB = `{${FILE_PATTERNS.join(",")}}`;
+
+  /** Glob of folders never searched for templates */
+  public static readonly EXCLUDE = "**/node_modules/**";
+
+  private watcher: vscode.FileSystemWatcher;
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  private _onDidDelete = new vscode.EventEmitter<vscode.Uri>();
+
+  public readonly onDidChange = this._onDidChange.event;
+  public readonly onDidDelete = this._onDidDelete.event;
+
+  constructor() {
+    this.watcher = vscode.workspace.createFileSystemWatcher(TemplateFileWatcher.GLOB);
+    this.watcher.onDidCreate((uri) => this._onDidChange.fire(uri));
+    this.watcher.onDidChange((uri) => this._onDidChange.fire(uri));
+    this.watcher.onDidDelete((uri) => this._onDidDelete.fire(uri));
+  }
+
+  /**
+   * Find every template file in the workspace
+   */
+  public static findTemplates(): Thenable<vscode.Uri[]> {
+    return vscode.workspace.findFiles(TemplateFileWatcher.GLOB, TemplateFileWatcher.EXCLUDE);
+  }
+
+  /**
+   * Check whether a file is one findTemplates would find
+   */
+  public static isTemplateFile(uri: vscode.Uri): boolean {
+    const fileName = uri.path.toLowerCase();
+    return uri.scheme === "file" && !fileName.includes("/node_modules/") && FILE_EXTENSIONS.some((ext) => fileName.endsWith(ext));
+  }
+
+  public dispose(): void {
+    this.watcher.dispose();
+    this._onDidChange.dispose();
+    this._onDidDelete.dispose();
+  }
+}
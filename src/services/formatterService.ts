@@ -1,4 +1,6 @@
 import * as vscode from "vscode";
+import { MustacheTag, MustacheTagType } from "../core/types";
+import { TemplateParser } from "./templateParser";
 
 export interface FormatterOptions {
   indentSize: number;
@@ -7,8 +9,14 @@ export interface FormatterOptions {
   insertSpacesAroundMustacheTags: boolean;
 }
 
+interface TagRange {
+  start: number;
+  end: number;
+}
+
 export class FormatterService {
   private options: FormatterOptions;
+  private parser = new TemplateParser();
 
   constructor(options?: Partial<FormatterOptions>) {
     this.options = {
@@ -44,24 +52,27 @@ export class FormatterService {
   private formatMustacheJSON(text: string, options: FormatterOptions): string {
     let result = "";
     let indentLevel = 0;
-    let inString = false;
-    let inMustacheTag = false;
-    let i = 0;
+    let lineStart = 0;
 
     const indent = " ".repeat(options.indentSize);
     const lines = text.split("\n");
+    const tags = this.parser.parse(text).tags;
 
     // Process line by line for better control
     for (const line of lines) {
       const trimmedLine = line.trim();
+      const trimmedStart = lineStart + (line.length - line.trimStart().length);
+      lineStart += line.length + 1;
+
       if (!trimmedLine) {
         continue;
       }
 
-      const formattedLine = this.formatLine(trimmedLine, indentLevel, options);
+      const tagRanges = this.getTagRanges(tags, trimmedStart, trimmedStart + trimmedLine.length);
+      const formattedLine = this.formatLine(trimmedLine, tagRanges, options);
 
       // Adjust indent level based on line content
-      const indentChange = this.calculateIndentChange(trimmedLine);
+      const indentChange = this.calculateIndentChange(trimmedLine, tagRanges);
 
       // Apply indent before adding line (for closing brackets)
       if (indentChange < 0) {
@@ -80,13 +91,22 @@ export class FormatterService {
     return result;
   }
 
+  /**
+   * Get the Mustache tags overlapping a slice of the text, relative to the slice start
+   */
+  private getTagRanges(tags: MustacheTag[], start: number, end: number): TagRange[] {
+    return tags
+      .filter((tag) => tag.start < end && tag.end > start)
+      .map((tag) => ({ start: Math.max(tag.start, start) - start, end: Math.min(tag.end, end) - start }));
+  }
+
   /**
    * Format a single line with Mustache awareness
    */
-  private formatLine(line: string, indentLevel: number, options: FormatterOptions): string {
+  private formatLine(line: string, tagRanges: TagRange[], options: FormatterOptions): string {
     let result = "";
     let inString = false;
-    let inMustacheTag = false;
+    let tagIndex = 0;
     let i = 0;
 
     while (i < line.length) {
@@ -94,6 +114,28 @@ export class FormatterService {
       const nextChar = line[i + 1];
       const prevChar = i > 0 ? line[i - 1] : "";
 
+      // Copy Mustache tags verbatim
+      const tag = tagRanges[tagIndex];
+      if (tag && tag.start === i) {
+        if (!inString && options.insertSpacesAroundMustacheTags && result.slice(-1) !== " " && result.length > 0) {
+          result += " ";
+        }
+        result += line.substring(tag.start, tag.end);
+        if (
+          !inString &&
+          options.insertSpacesAroundMustacheTags &&
+          line[tag.end] &&
+          line[tag.end] !== " " &&
+          line[tag.end] !== "," &&
+          line[tag.end] !== "}"
+        ) {
+          result += " ";
+        }
+        i = tag.end;
+        tagIndex++;
+        continue;
+      }
+
       // Handle string detection
       if (char === '"' && prevChar !== "\\") {
         inString = !inString;
@@ -109,59 +151,33 @@ export class FormatterService {
         continue;
       }
 
-      // Handle Mustache tag detection
-      if (char === "{" && nextChar === "{") {
-        inMustacheTag = true;
-        if (options.insertSpacesAroundMustacheTags && result.slice(-1) !== " " && result.length > 0) {
-          result += " ";
-        }
-        result += "{{";
-        i += 2;
-        continue;
-      }
+      // Handle JSON formatting
+      switch (char) {
+        case ",":
+          result += ",";
+          // Add space after comma if not followed by newline or Mustache tag
+          if (nextChar && nextChar !== "\n" && nextChar !== " " && !(tag && tag.start === i + 1)) {
+            result += " ";
+          }
+          break;
 
-      if (char === "}" && nextChar === "}" && inMustacheTag) {
-        inMustacheTag = false;
-        result += "}}";
-        if (options.insertSpacesAroundMustacheTags && line[i + 2] && line[i + 2] !== " " && line[i + 2] !== "," && line[i + 2] !== "}") {
-          result += " ";
-        }
-        i += 2;
-        continue;
-      }
+        case ":":
+          result += ":";
+          // Add space after colon
+          if (nextChar && nextChar !== " ") {
+            result += " ";
+          }
+          break;
 
-      // Handle JSON formatting
-      if (!inMustacheTag) {
-        switch (char) {
-          case ",":
-            result += ",";
-            // Add space after comma if not followed by newline or Mustache tag
-            if (nextChar && nextChar !== "\n" && nextChar !== " " && !(nextChar === "{" && line[i + 2] === "{")) {
-              result += " ";
-            }
-            break;
-
-          case ":":
-            result += ":";
-            // Add space after colon
-            if (nextChar && nextChar !== " ") {
-              result += " ";
-            }
-            break;
-
-          case " ":
-            // Collapse multiple spaces (except in strings or Mustache tags)
-            if (prevChar !== " ") {
-              result += " ";
-            }
-            break;
-
-          default:
-            result += char;
-        }
-      } else {
-        // Inside Mustache tag - preserve spacing
-        result += char;
+        case " ":
+          // Collapse multiple spaces (except in strings or Mustache tags)
+          if (prevChar !== " ") {
+            result += " ";
+          }
+          break;
+
+        default:
+          result += char;
       }
 
       i++;
@@ -173,16 +189,23 @@ export class FormatterService {
   /**
    * Calculate indent level change based on line content
    */
-  private calculateIndentChange(line: string): number {
+  private calculateIndentChange(line: string, tagRanges: TagRange[]): number {
     let change = 0;
     let inString = false;
-    let inMustacheTag = false;
+    let tagIndex = 0;
 
     for (let i = 0; i < line.length; i++) {
       const char = line[i];
-      const nextChar = line[i + 1];
       const prevChar = i > 0 ? line[i - 1] : "";
 
+      // Skip Mustache tags
+      const tag = tagRanges[tagIndex];
+      if (tag && tag.start === i) {
+        i = tag.end - 1;
+        tagIndex++;
+        continue;
+      }
+
       // Handle string detection
       if (char === '"' && prevChar !== "\\") {
         inString = !inString;
@@ -193,23 +216,6 @@ export class FormatterService {
         continue;
       }
 
-      // Handle Mustache tags
-      if (char === "{" && nextChar === "{") {
-        inMustacheTag = true;
-        i++; // Skip next character
-        continue;
-      }
-
-      if (char === "}" && nextChar === "}" && inMustacheTag) {
-        inMustacheTag = false;
-        i++; // Skip next character
-        continue;
-      }
-
-      if (inMustacheTag) {
-        continue;
-      }
-
       // JSON structure characters
       switch (char) {
         case "{":
@@ -255,44 +261,37 @@ export class FormatterService {
    * Format Mustache sections with proper indentation
    */
   public formatMustacheSections(text: string): string {
-    const lines = text.split("\n");
-    const result: string[] = [];
-    const indent = " ".repeat(this.options.indentSize);
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) {
-        result.push("");
-        continue;
-      }
-
-      // Handle Mustache section indentation
-      if (this.isMustacheSection(trimmed)) {
-        const formatted = this.formatMustacheSectionLine(trimmed);
-        result.push(formatted);
-      } else {
-        result.push(trimmed);
-      }
+    // Normalize section tags: {{#section}} {{/section}} {{^section}}, working backwards so offsets stay valid
+    const sectionTags = this.parser
+      .parse(text)
+      .tags.filter((tag) => this.isSectionTag(tag))
+      .reverse();
+
+    let normalized = text;
+    for (const tag of sectionTags) {
+      normalized = normalized.substring(0, tag.start) + this.formatSectionTag(tag) + normalized.substring(tag.end);
     }
 
-    return result.join("\n");
+    return normalized
+      .split("\n")
+      .map((line) => line.trim())
+      .join("\n");
   }
 
   /**
-   * Check if line contains Mustache section
+   * Check if a tag opens or closes a section
    */
-  private isMustacheSection(line: string): boolean {
-    return /\{\{\s*[#^/]\s*\w+\s*\}\}/.test(line);
+  private isSectionTag(tag: MustacheTag): boolean {
+    return tag.type === MustacheTagType.Section || tag.type === MustacheTagType.Inverted || tag.type === MustacheTagType.Closing;
   }
 
   /**
-   * Format Mustache section line
+   * Format a section tag, keeping its delimiters
    */
-  private formatMustacheSectionLine(line: string): string {
-    // Format section tags: {{#section}} {{/section}} {{^section}}
-    return line.replace(/\{\{\s*([#^/])\s*(\w+)\s*\}\}/g, "{{$1$2}}").replace(/\{\{\s*([#^/])\s*(\w+)\s*\}\}/g, (match, operator, name) => {
-      return this.options.insertSpacesAroundMustacheTags ? `{{ ${operator}${name} }}` : `{{${operator}${name}}}`;
-    });
+  private formatSectionTag(tag: MustacheTag): string {
+    const operator = tag.type === MustacheTagType.Section ? "#" : tag.type === MustacheTagType.Inverted ? "^" : "/";
+    const content = this.options.insertSpacesAroundMustacheTags ? ` ${operator}${tag.name} ` : `${operator}${tag.name}`;
+    return `${tag.openDelimiter}${content}${tag.closeDelimiter}`;
   }
 
   /**
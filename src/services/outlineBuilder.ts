@@ -0,0 +1,256 @@
+import { MustacheRootNode, MustacheSectionNode, MustacheTag, MustacheTagType, OutlineValueKind, TemplateOutlineNode } from "../core/types";
+import { TemplateParser } from "./templateParser";
+import { collectSections, isSeparatorSection } from "../utils/astUtils";
+import { maskMustacheTags, SECTION_MARK } from "../utils/jsonPositionUtils";
+
+/**
+ * An open node while scanning: a JSON container, a section, or a member whose value is still being read
+ */
+interface OutlineFrame {
+  node?: TemplateOutlineNode; // Undefined for objects and arrays that are not a member's value, e.g. list items
+  container?: "{" | "[";
+  section?: MustacheSectionNode;
+  templateValue?: boolean; // A member whose value is made of sections or partials - it ends at the next comma or bracket
+}
+
+/**
+ * Builds a tree of the JSON keys a template emits with its sections and partials nested where they occur
+ */
+export class TemplateOutlineBuilder {
+  private parser = new TemplateParser();
+
+  /**
+   * Build the outline of a template; objects and arrays without a key of their own are transparent
+   */
+  public build(text: string, ast?: MustacheRootNode): TemplateOutlineNode[] {
+    const root = ast || this.parser.parse(text);
+    const masked = maskMustacheTags(text, root);
+    const tags = new Map<number, MustacheTag>(root.tags.map((tag) => [tag.start, tag]));
+    const sections = new Map<number, MustacheSectionNode>(collectSections(root).map((section) => [section.openTag.start, section]));
+
+    const roots: TemplateOutlineNode[] = [];
+    const stack: OutlineFrame[] = [];
+    let pendingMember: TemplateOutlineNode | undefined; // A member whose value starts at the next token
+
+    const addNode = (node: TemplateOutlineNode) => {
+      const parent = this.findParentNode(stack);
+      (parent ? parent.children : roots).push(node);
+    };
+
+    for (let i = 0; i < masked.length; i++) {
+      const char = masked[i];
+      if (/\s/.test(char)) {
+        continue;
+      }
+
+      if (pendingMember) {
+        const member = pendingMember;
+        pendingMember = undefined;
+
+        if (char === "{" || char === "[") {
+          member.valueKind = char === "{" ? "object" : "array";
+          stack.push({ node: member, container: char });
+          continue;
+        }
+
+        if (char === SECTION_MARK) {
+          member.valueKind = "template";
+          stack.push({ node: member, templateValue: true });
+        } else {
+          const valueEnd = tags.get(i)?.end ?? this.scanScalar(masked, i);
+          member.valueKind = this.getScalarKind(masked, i, tags.has(i));
+          member.value = text.substring(i, valueEnd);
+          member.end = valueEnd;
+          i = valueEnd - 1;
+          continue;
+        }
+      }
+
+      if (char === "{" || char === "[") {
+        stack.push({ container: char });
+      } else if (char === "}" || char === "]") {
+        this.closeContainer(stack, text, i);
+      } else if (char === ",") {
+        if (stack.length > 0 && stack[stack.length - 1].templateValue) {
+          this.popFrame(stack, this.trimEnd(text, i));
+        }
+      } else if (char === SECTION_MARK) {
+        const tag = tags.get(i);
+        if (tag) {
+          this.handleTag(tag, sections.get(i), stack, addNode, text);
+          i = tag.end - 1;
+        }
+      } else {
+        // A string or bare value; in an object it may be a key
+        const end = char === '"' ? this.skipString(masked, i) : (tags.get(i)?.end ?? this.scanScalar(masked, i));
+        const colon = this.nextSignificant(masked, end);
+        if (this.getContainer(stack) === "{" && masked[colon] === ":") {
+          const name = char === '"' ? text.substring(i + 1, end - 1) : text.substring(i, end);
+          pendingMember = { kind: "member", name, start: i, end, selectionStart: i, selectionEnd: end, children: [] };
+          addNode(pendingMember);
+          i = colon;
+        } else {
+          i = Math.max(i, end - 1);
+        }
+      }
+    }
+
+    // An unfinished template leaves members open
+    while (stack.length > 0) {
+      this.popFrame(stack, this.trimEnd(text, text.length));
+    }
+
+    return roots;
+  }
+
+  /**
+   * Open a section, close one, or add a partial. Separator sections such as {{^last}},{{/last}} are left out.
+   */
+  private handleTag(
+    tag: MustacheTag,
+    section: MustacheSectionNode | undefined,
+    stack: OutlineFrame[],
+    addNode: (node: TemplateOutlineNode) => void,
+    text: string
+  ): void {
+    if (section && !isSeparatorSection(section)) {
+      const node: TemplateOutlineNode = {
+        kind: "section",
+        name: section.name,
+        inverted: section.inverted,
+        start: tag.start,
+        end: section.closeTag ? section.closeTag.end : section.end,
+        selectionStart: tag.start,
+        selectionEnd: tag.end,
+        children: [],
+      };
+      addNode(node);
+      stack.push({ node, section });
+    } else if (tag.type === MustacheTagType.Closing) {
+      const index = this.findLastIndex(stack, (frame) => frame.section?.closeTag === tag);
+      if (index >= 0) {
+        while (stack.length > index + 1) {
+          this.popFrame(stack, this.trimEnd(text, tag.start));
+        }
+        stack.pop(); // The section's end is already known
+      }
+    } else if (tag.type === MustacheTagType.Partial) {
+      addNode({
+        kind: "partial",
+        name: tag.name,
+        start: tag.start,
+        end: tag.end,
+        selectionStart: tag.start,
+        selectionEnd: tag.end,
+        children: [],
+      });
+    }
+  }
+
+  /**
+   * Close the innermost object or array and everything still open inside it
+   */
+  private closeContainer(stack: OutlineFrame[], text: string, offset: number): void {
+    const index = this.findLastIndex(stack, (frame) => frame.container !== undefined);
+    if (index < 0) {
+      return;
+    }
+
+    while (stack.length > index + 1) {
+      this.popFrame(stack, this.trimEnd(text, offset));
+    }
+    this.popFrame(stack, offset + 1);
+  }
+
+  private popFrame(stack: OutlineFrame[], end: number): void {
+    const frame = stack.pop();
+    if (frame?.node && (frame.container || frame.templateValue)) {
+      frame.node.end = end;
+    }
+  }
+
+  private findParentNode(stack: OutlineFrame[]): TemplateOutlineNode | undefined {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i].node) {
+        return stack[i].node;
+      }
+    }
+    return undefined;
+  }
+
+  private getContainer(stack: OutlineFrame[]): "{" | "[" | undefined {
+    const index = this.findLastIndex(stack, (frame) => frame.container !== undefined);
+    return index >= 0 ? stack[index].container : undefined;
+  }
+
+  private findLastIndex(stack: OutlineFrame[], predicate: (frame: OutlineFrame) => boolean): number {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (predicate(stack[i])) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private getScalarKind(masked: string, offset: number, isTag: boolean): OutlineValueKind {
+    if (isTag) {
+      return "variable";
+    }
+    switch (masked[offset]) {
+      case '"':
+        return "string";
+      case "t":
+      case "f":
+        return "boolean";
+      case "n":
+        return "null";
+      default:
+        return "number";
+    }
+  }
+
+  /**
+   * Get the offset just past the scalar value starting at an offset
+   */
+  private scanScalar(masked: string, offset: number): number {
+    if (masked[offset] === '"') {
+      return this.skipString(masked, offset);
+    }
+
+    let i = offset;
+    while (i < masked.length && !/[\s,:\]}]/.test(masked[i]) && masked[i] !== SECTION_MARK) {
+      i++;
+    }
+    return Math.max(i, offset + 1);
+  }
+
+  private skipString(masked: string, offset: number): number {
+    for (let i = offset + 1; i < masked.length; i++) {
+      if (masked[i] === "\\") {
+        i++;
+      } else if (masked[i] === '"') {
+        return i + 1;
+      }
+    }
+    return masked.length;
+  }
+
+  private nextSignificant(masked: string, offset: number): number {
+    let i = offset;
+    while (i < masked.length && /\s/.test(masked[i])) {
+      i++;
+    }
+    return i;
+  }
+
+  /**
+   * Get the offset just past the last non-whitespace character before an offset
+   */
+  private trimEnd(text: string, offset: number): number {
+    let i = offset;
+    while (i > 0 && /\s/.test(text[i - 1])) {
+      i--;
+    }
+    return i;
+  }
+}
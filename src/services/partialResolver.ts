@@ -0,0 +1,192 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { MustacheTag, MustacheTagType, PartialIssue, PartialResolution } from "../core/types";
+import { PERFORMANCE_LIMITS } from "../core/constants";
+import { ConfigurationManager } from "../core/config";
+import { TemplateParser } from "./templateParser";
+
+/**
+ * Finds the files behind {{>partial}} tags and loads every partial a template can reach
+ */
+export class PartialResolver {
+  private configManager: ConfigurationManager;
+  private parser = new TemplateParser();
+
+  constructor() {
+    this.configManager = ConfigurationManager.getInstance();
+  }
+
+  /**
+   * Load all partials reachable from a template, reporting missing partials and include cycles at the tags that lead to them
+   */
+  public async resolve(template: string, templatePath?: string): Promise<PartialResolution> {
+    const resolution: PartialResolution = { partials: {}, files: {}, missing: [], cycles: [] };
+    const includes = new Map<string, string[] | undefined>();
+
+    for (const tag of this.getPartialTags(template)) {
+      await this.visit(tag.name, [tag.name], tag, templatePath, includes, resolution);
+    }
+
+    return resolution;
+  }
+
+  /**
+   * Find the file a partial name refers to: the template's own directory first, then each configured directory
+   */
+  public async findPartialFile(name: string, templatePath?: string): Promise<string | undefined> {
+    for (const candidate of this.getCandidatePaths(name, templatePath)) {
+      try {
+        const stat = await vscode.workspace.fs.stat(vscode.Uri.file(candidate));
+        if (stat.type & vscode.FileType.File) {
+          return candidate;
+        }
+      } catch {
+        // Not here - try the next candidate
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get every file path a partial name could refer to, in lookup order
+   */
+  public getCandidatePaths(name: string, templatePath?: string): string[] {
+    const config = this.configManager.getConfig();
+    const directories = this.getPartialDirectories(templatePath);
+
+    const fileNames = config.partialExtensions.map((extension) => `${name}${extension}`);
+    if (path.extname(name)) {
+      fileNames.unshift(name); // {{>header.mustache}} names the file directly
+    }
+
+    const candidates: string[] = [];
+    for (const directory of directories) {
+      for (const fileName of fileNames) {
+        const candidate = path.resolve(directory, fileName);
+        if (!candidates.includes(candidate)) {
+          candidates.push(candidate);
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * List the partials available to a template by name, with the file each name resolves to
+   */
+  public async listPartials(templatePath?: string): Promise<Map<string, string>> {
+    const extensions = this.configManager.getConfig().partialExtensions;
+    const partials = new Map<string, string>();
+
+    for (const directory of this.getPartialDirectories(templatePath)) {
+      let entries: [string, vscode.FileType][];
+      try {
+        entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(directory));
+      } catch {
+        continue; // Configured directories may not exist in every workspace
+      }
+
+      for (const [fileName, type] of entries) {
+        const extension = extensions.find((ext) => fileName.toLowerCase().endsWith(ext.toLowerCase()));
+        const filePath = path.join(directory, fileName);
+        if (!(type & vscode.FileType.File) || !extension || filePath === templatePath) {
+          continue;
+        }
+
+        // Earlier directories win, as they do when resolving
+        const name = fileName.slice(0, -extension.length);
+        if (!partials.has(name)) {
+          partials.set(name, filePath);
+        }
+      }
+    }
+
+    return partials;
+  }
+
+  /**
+   * Get the directories searched for partials, in lookup order
+   */
+  private getPartialDirectories(templatePath?: string): string[] {
+    // Without a workspace folder relative directories have nothing to resolve against, rather than the process's cwd
+    const directories = this.configManager
+      .getConfig()
+      .partialDirectories.map((directory) => this.configManager.resolveWorkspacePath(directory))
+      .filter((directory) => path.isAbsolute(directory));
+    if (templatePath && path.isAbsolute(templatePath)) {
+      directories.unshift(path.dirname(templatePath));
+    }
+    return directories;
+  }
+
+  /**
+   * Load one partial and everything it includes
+   */
+  private async visit(
+    name: string,
+    chain: string[],
+    rootTag: MustacheTag,
+    templatePath: string | undefined,
+    includes: Map<string, string[] | undefined>, // Partial names each loaded partial includes; undefined when it cannot be loaded
+    resolution: PartialResolution
+  ): Promise<void> {
+    if (chain.indexOf(name) < chain.length - 1) {
+      this.addIssue(resolution.cycles, rootTag, chain);
+      return;
+    }
+
+    if (chain.length > PERFORMANCE_LIMITS.MAX_PARTIAL_DEPTH) {
+      return;
+    }
+
+    if (!includes.has(name)) {
+      const content = await this.loadPartial(name, templatePath, resolution);
+      includes.set(name, content === undefined ? undefined : this.getPartialTags(content).map((tag) => tag.name));
+    }
+
+    const included = includes.get(name);
+    if (!included) {
+      this.addIssue(resolution.missing, rootTag, chain);
+      return;
+    }
+
+    for (const child of included) {
+      await this.visit(child, [...chain, child], rootTag, templatePath, includes, resolution);
+    }
+  }
+
+  /**
+   * Read a partial's file, recording where it came from
+   */
+  private async loadPartial(name: string, templatePath: string | undefined, resolution: PartialResolution): Promise<string | undefined> {
+    const filePath = await this.findPartialFile(name, templatePath);
+    if (!filePath) {
+      return undefined;
+    }
+
+    try {
+      const content = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.file(filePath))).toString("utf8");
+      resolution.partials[name] = content;
+      resolution.files[name] = filePath;
+      return content;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Record an issue once per tag and chain
+   */
+  private addIssue(issues: PartialIssue[], tag: MustacheTag, chain: string[]): void {
+    const key = chain.join(">");
+    if (!issues.some((issue) => issue.tag === tag && issue.chain.join(">") === key)) {
+      issues.push({ tag, chain });
+    }
+  }
+
+  private getPartialTags(template: string): MustacheTag[] {
+    return this.parser.parse(template).tags.filter((tag) => tag.type === MustacheTagType.Partial && tag.name);
+  }
+}
@@ -0,0 +1,178 @@
+import * as vscode from "vscode";
+import {
+  ContextFileInfo,
+  ContextReference,
+  ContextReferenceGroup,
+  MustacheRootNode,
+  MustacheTagType,
+  TemplateContext,
+} from "../core/types";
+import { MUSTACHE_PATTERNS } from "../core/constants";
+import { ConfigurationManager } from "../core/config";
+import { TemplateFileWatcher } from "./fileWatcher";
+import { TemplateParser } from "./templateParser";
+import { VariableResolver } from "./variableResolver";
+import { createLineColumnLookup } from "../utils/rangeUtils";
+import { collapseArrayIndices, walkJSONKeys } from "../utils/jsonPathUtils";
+import { readWorkspaceFile } from "../utils/fileUtils";
+
+/**
+ * Finds every use of a context key: tag names in the workspace's templates, resolved through their section scopes,
+ * and the key itself in the active context file
+ */
+export class ContextReferenceFinder {
+  private configManager: ConfigurationManager;
+  private parser = new TemplateParser();
+  private resolver = new VariableResolver();
+
+  constructor() {
+    this.configManager = ConfigurationManager.getInstance();
+  }
+
+  /**
+   * Get the context key at a position in a template or in the context file
+   */
+  public async getReferenceAt(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<{ path: string; range: vscode.Range } | undefined> {
+    const contextInfo = await this.getValidContextInfo();
+    const text = document.getText();
+    const offset = document.offsetAt(position);
+
+    const references = this.isContextFile(document.uri, contextInfo)
+      ? this.getContextKeys(text)
+      : this.getTemplateReferences(text, contextInfo?.content);
+    const reference = references.find((candidate) => candidate.start <= offset && offset <= candidate.end);
+
+    return (
+      reference && {
+        path: reference.path,
+        range: new vscode.Range(document.positionAt(reference.start), document.positionAt(reference.end)),
+      }
+    );
+  }
+
+  /**
+   * Find every reference to a context path in the workspace's templates, the context file and the context files
+   * templates name in {{! context: path }} comments
+   */
+  public async findReferences(path: string): Promise<ContextReferenceGroup[]> {
+    const contextInfo = await this.getValidContextInfo();
+    const groups: ContextReferenceGroup[] = [];
+    const contextFiles = new Set<string>(contextInfo ? [contextInfo.path] : []);
+
+    const templates = await TemplateFileWatcher.findTemplates();
+    for (const uri of templates) {
+      const text = await readWorkspaceFile(uri);
+      if (text !== undefined) {
+        const ast = this.parser.parse(text);
+        this.addGroup(groups, uri, text, this.getTemplateReferences(text, contextInfo?.content, ast), path, false);
+        this.getCommentContextFiles(ast, uri).forEach((filePath) => contextFiles.add(filePath));
+      }
+    }
+
+    for (const filePath of contextFiles) {
+      const uri = vscode.Uri.file(filePath);
+      const text = await readWorkspaceFile(uri);
+      if (text !== undefined) {
+        this.addGroup(groups, uri, text, this.getContextKeys(text), path, true);
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Get the context path each segment of each tag name refers to - {{profile.age}} refers to both "profile" and "profile.age"
+   */
+  public getTemplateReferences(template: string, context?: TemplateContext, ast?: MustacheRootNode): ContextReference[] {
+    const references: ContextReference[] = [];
+
+    for (const resolution of this.resolver.resolveTags(template, context, ast || this.parser.parse(template))) {
+      const { tag, name } = resolution;
+      // Without a context the innermost scope is assumed, as the schema inferrer does
+      const path = resolution.resolved?.path ?? resolution.candidates[0]?.path;
+      if (!tag || !name || name === "." || path === undefined) {
+        continue;
+      }
+
+      const scopePath = path.substring(0, path.length - name.length);
+      let segmentStart = 0;
+
+      for (const segment of name.split(".")) {
+        const segmentEnd = segmentStart + segment.length;
+        references.push({
+          path: scopePath + name.substring(0, segmentEnd),
+          start: tag.nameStart + segmentStart,
+          end: tag.nameStart + segmentEnd,
+        });
+        segmentStart = segmentEnd + 1;
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Get every key in a context file with its collapsed path, ranging over the key between its quotes
+   */
+  public getContextKeys(text: string): ContextReference[] {
+    const keys: ContextReference[] = [];
+    try {
+      walkJSONKeys(text, (path, range) => keys.push({ path: collapseArrayIndices(path), start: range.start + 1, end: range.end - 1 }));
+    } catch {
+      // A key with an invalid escape - keep the keys found before it
+    }
+    return keys;
+  }
+
+  /**
+   * Get the context files a template names in {{! context: path }} comments
+   */
+  private getCommentContextFiles(ast: MustacheRootNode, uri: vscode.Uri): string[] {
+    const filePaths: string[] = [];
+    for (const tag of ast.tags) {
+      const match = tag.type === MustacheTagType.Comment ? MUSTACHE_PATTERNS.CONTEXT_COMMENT.exec(tag.name) : null;
+      if (match) {
+        filePaths.push(this.configManager.resolveDocumentPath(match[2], uri.fsPath));
+      }
+    }
+    return filePaths;
+  }
+
+  private addGroup(
+    groups: ContextReferenceGroup[],
+    uri: vscode.Uri,
+    text: string,
+    references: ContextReference[],
+    path: string,
+    isContextFile: boolean
+  ): void {
+    const matches = references.filter((reference) => reference.path === path);
+    if (matches.length === 0) {
+      return;
+    }
+
+    const locate = createLineColumnLookup(text);
+    const toPosition = (offset: number) => {
+      const location = locate(offset);
+      return new vscode.Position(location.line - 1, location.column);
+    };
+
+    groups.push({
+      uri,
+      ranges: matches.map((reference) => new vscode.Range(toPosition(reference.start), toPosition(reference.end))),
+      isContextFile,
+    });
+  }
+
+  private async getValidContextInfo(): Promise<ContextFileInfo | undefined> {
+    const contextInfo = await this.configManager.getContextFileInfo();
+    return contextInfo && contextInfo.isValid ? contextInfo : undefined;
+  }
+
+  private isContextFile(uri: vscode.Uri, contextInfo?: ContextFileInfo): boolean {
+    return contextInfo !== undefined && uri.scheme === "file" && uri.fsPath === contextInfo.path;
+  }
+}
@@ -0,0 +1,270 @@
+import {
+  ContextSchema,
+  ContextSchemaType,
+  JSONPosition,
+  MustacheNode,
+  MustacheNodeType,
+  MustacheRootNode,
+  MustacheSectionNode,
+  MustacheTag,
+} from "../core/types";
+import { TemplateParser } from "./templateParser";
+import { collectSections, isSeparatorSection, walkNodes } from "../utils/astUtils";
+import { classifyJSONPositions, findJSONContainers, maskMustacheTags } from "../utils/jsonPositionUtils";
+
+const JSON_SCHEMA_DRAFT = "http://json-schema.org/draft-07/schema#";
+
+const TYPE_ORDER: ContextSchemaType[] = ["string", "number", "boolean", "object", "array"];
+
+/**
+ * How a section uses its value: iterates it, enters it, or only tests it
+ */
+export type SectionRole = "array" | "object" | "flag";
+
+/**
+ * What the template reveals about one context value
+ */
+interface InferredValue {
+  types: Set<ContextSchemaType>;
+  properties: Map<string, InferredValue>;
+  required: Set<string>;
+  items?: InferredValue;
+}
+
+interface InferenceState {
+  root: InferredValue;
+  positions: Map<MustacheTag, JSONPosition>;
+  roles: Map<MustacheSectionNode, SectionRole>;
+}
+
+/**
+ * Infers the shape of the context a template expects and describes it as a JSON Schema.
+ * Sections become arrays, objects or booleans; quoted variables strings; bare variables numbers or booleans.
+ */
+export class SchemaInferrer {
+  private parser = new TemplateParser();
+
+  /**
+   * Infer a JSON Schema for the context of a template
+   */
+  public infer(template: string, title?: string): ContextSchema {
+    const ast = this.parser.parse(template);
+    const root = this.createValue();
+    root.types.add("object");
+
+    const state: InferenceState = {
+      root,
+      positions: classifyJSONPositions(template, ast),
+      roles: this.classifySections(template, ast),
+    };
+    this.inferNodes(ast.children, root, true, state);
+
+    return {
+      $schema: JSON_SCHEMA_DRAFT,
+      ...(title ? { title } : {}),
+      ...this.toSchema(root),
+    };
+  }
+
+  /**
+   * Record what each node says about the values of the scope it renders in
+   */
+  private inferNodes(nodes: MustacheNode[], scope: InferredValue, required: boolean, state: InferenceState): void {
+    for (const node of nodes) {
+      if (node.type === MustacheNodeType.Variable) {
+        const type = this.getVariableTypes(state.positions.get(node.tag));
+
+        if (node.name === ".") {
+          // The current item itself - the root context is always an object
+          if (scope !== state.root) {
+            type.forEach((t) => scope.types.add(t));
+          }
+        } else {
+          const value = this.resolve(scope, node.name, required);
+          type.forEach((t) => value.types.add(t));
+        }
+      } else if (node.type === MustacheNodeType.Section) {
+        this.inferSection(node, scope, state);
+      }
+    }
+  }
+
+  /**
+   * Record a section's value and infer its body in the scope the body renders in
+   */
+  private inferSection(section: MustacheSectionNode, scope: InferredValue, state: InferenceState): void {
+    const value = this.resolve(scope, section.name, false);
+
+    // {{^name}} renders in the enclosing scope; a value only ever inverted is left untyped and becomes a boolean
+    if (section.inverted) {
+      this.inferNodes(section.children, scope, false, state);
+      return;
+    }
+
+    switch (state.roles.get(section)) {
+      case "array": {
+        value.types.add("array");
+        value.items = value.items || this.createValue();
+
+        // Scalar items rendered with {{.}} cannot carry separator flags, so those are not item properties
+        const body = this.readsImplicitIterator(section)
+          ? section.children.filter((child) => !(child.type === MustacheNodeType.Section && isSeparatorSection(child)))
+          : section.children;
+        this.inferNodes(body, value.items, true, state);
+        break;
+      }
+      case "object":
+        value.types.add("object");
+        this.inferNodes(section.children, value, true, state);
+        break;
+      default:
+        value.types.add("boolean");
+        this.inferNodes(section.children, scope, false, state);
+    }
+  }
+
+  /**
+   * Decide how each section uses its value from what it contains and where it sits in the JSON
+   */
+  public classifySections(text: string, ast: MustacheRootNode): Map<MustacheSectionNode, SectionRole> {
+    const roles = new Map<MustacheSectionNode, SectionRole>();
+    const masked = maskMustacheTags(text, ast);
+    const sections = collectSections(ast);
+    const containers = findJSONContainers(
+      masked,
+      sections.map((section) => section.openTag.start)
+    );
+
+    sections.forEach((section, index) => {
+      const container = containers[index];
+
+      if (!this.readsItemValues(section)) {
+        roles.set(section, "flag"); // Only wraps literal text
+      } else if (
+        container === "[" ||
+        this.readsImplicitIterator(section) ||
+        section.children.some((child) => child.type === MustacheNodeType.Section && isSeparatorSection(child))
+      ) {
+        roles.set(section, "array"); // {{.}} renders each item, wherever the section sits, e.g. "{{#tags}}{{.}},{{/tags}}"
+      } else if (container === "{" && this.previousSignificantChar(masked, section.openTag.start) !== ":") {
+        roles.set(section, "flag"); // A conditional object member
+      } else {
+        roles.set(section, "object");
+      }
+    });
+
+    return roles;
+  }
+
+  /**
+   * Check whether a section's body looks anything up in its value
+   */
+  private readsItemValues(section: MustacheSectionNode): boolean {
+    let reads = false;
+
+    walkNodes(section.children, (node) => {
+      if (node.type === MustacheNodeType.Variable || (node.type === MustacheNodeType.Section && !node.inverted)) {
+        reads = true;
+      }
+      return !reads;
+    });
+
+    return reads;
+  }
+
+  /**
+   * Check whether a section renders its items with {{.}} - nested sections other than inverted ones have items of their own
+   */
+  private readsImplicitIterator(section: MustacheSectionNode): boolean {
+    return section.children.some(
+      (child) =>
+        (child.type === MustacheNodeType.Variable && child.name === ".") ||
+        (child.type === MustacheNodeType.Section && child.inverted && this.readsImplicitIterator(child))
+    );
+  }
+
+  /**
+   * Get the types a variable can render as at a JSON position
+   */
+  private getVariableTypes(position: JSONPosition | undefined): ContextSchemaType[] {
+    return position === JSONPosition.Value ? ["number", "boolean"] : ["string"];
+  }
+
+  /**
+   * Find or create the value for a (possibly dotted) name, marking intermediate values as objects
+   */
+  private resolve(scope: InferredValue, name: string, required: boolean): InferredValue {
+    const parts = name.split(".");
+    let current = scope;
+
+    parts.forEach((part, index) => {
+      let child = current.properties.get(part);
+      if (!child) {
+        child = this.createValue();
+        current.properties.set(part, child);
+      }
+
+      if (required) {
+        current.required.add(part);
+      }
+      if (index < parts.length - 1) {
+        child.types.add("object");
+      }
+
+      current = child;
+    });
+
+    return current;
+  }
+
+  /**
+   * Convert an inferred value into a JSON Schema
+   */
+  private toSchema(value: InferredValue, untypedFallback: ContextSchemaType | undefined = "boolean"): ContextSchema {
+    const types = new Set(value.types);
+    if (value.properties.size > 0) {
+      types.add("object");
+    }
+    if (types.size === 0 && untypedFallback) {
+      types.add(untypedFallback);
+    }
+
+    const schema: ContextSchema = {};
+    const ordered = TYPE_ORDER.filter((type) => types.has(type));
+    if (ordered.length > 0) {
+      schema.type = ordered.length === 1 ? ordered[0] : ordered;
+    }
+
+    if (value.properties.size > 0) {
+      schema.properties = {};
+      for (const [name, property] of value.properties) {
+        schema.properties[name] = this.toSchema(property);
+      }
+      if (value.required.size > 0) {
+        schema.required = Array.from(value.required);
+      }
+    }
+
+    if (value.items) {
+      schema.items = this.toSchema(value.items, undefined);
+    }
+
+    return schema;
+  }
+
+  /**
+   * Get the first non-whitespace character before an offset
+   */
+  private previousSignificantChar(masked: string, offset: number): string | undefined {
+    for (let i = offset - 1; i >= 0; i--) {
+      if (!/\s/.test(masked[i])) {
+        return masked[i];
+      }
+    }
+    return undefined;
+  }
+
+  private createValue(): InferredValue {
+    return { types: new Set(), properties: new Map(), required: new Set() };
+  }
+}
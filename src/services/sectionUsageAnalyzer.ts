@@ -0,0 +1,65 @@
+import {
+  ContextFrame,
+  MustacheNode,
+  MustacheNodeType,
+  MustacheRootNode,
+  MustacheSectionNode,
+  SectionUsage,
+  TemplateContext,
+} from "../core/types";
+import { TemplateParser } from "./templateParser";
+import { VariableResolver } from "./variableResolver";
+import { collectSections } from "../utils/astUtils";
+
+/**
+ * Counts how often each section of a template renders with a concrete context, following Mustache's section rules
+ */
+export class SectionUsageAnalyzer {
+  private parser = new TemplateParser();
+  private resolver = new VariableResolver();
+
+  /**
+   * Get the usage of every section, including those never reached
+   */
+  public analyze(template: string, context: TemplateContext, ast?: MustacheRootNode): Map<MustacheSectionNode, SectionUsage> {
+    const root = ast || this.parser.parse(template);
+    const usage = new Map<MustacheSectionNode, SectionUsage>(
+      collectSections(root).map((section) => [section, { section, reached: 0, renders: 0 }])
+    );
+
+    this.walkNodes(root.children, [{ view: context, path: "" }], usage);
+    return usage;
+  }
+
+  private walkNodes(nodes: MustacheNode[], frames: ContextFrame[], usage: Map<MustacheSectionNode, SectionUsage>): void {
+    for (const node of nodes) {
+      if (node.type !== MustacheNodeType.Section) {
+        continue; // Partials are not loaded here, so sections inside them are not counted
+      }
+
+      const record = usage.get(node)!;
+      const lookup = this.resolver.lookup(node.name, frames);
+      const value = lookup.value;
+      const isEmpty = !value || (Array.isArray(value) && value.length === 0);
+      record.reached++;
+
+      if (node.inverted ? !isEmpty : isEmpty || typeof value === "function") {
+        record.skippedBy = record.skippedBy || lookup;
+      } else if (node.inverted) {
+        record.renders++;
+        this.walkNodes(node.children, frames, usage);
+      } else if (Array.isArray(value)) {
+        value.forEach((item, index) => {
+          record.renders++;
+          this.walkNodes(node.children, [...frames, { view: item, path: `${lookup.path}[${index}]` }], usage);
+        });
+      } else if (typeof value === "object" || typeof value === "string" || typeof value === "number") {
+        record.renders++;
+        this.walkNodes(node.children, [...frames, { view: value, path: lookup.path }], usage);
+      } else {
+        record.renders++;
+        this.walkNodes(node.children, frames, usage);
+      }
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { SourceMapSegment, SourceMapSegmentKind, ValidationError, ValidationFix, ValidationFixEdit } from "../core/types";
+import { lineColumnAt, lineEndAt, offsetAt } from "../utils/rangeUtils";
+import { formatValuePreview } from "../utils/stringUtils";
+
+const MAX_VALUE_PREVIEW_LENGTH = 40;
+
+/**
+ * Maps positions in rendered output back to the template text that produced them
+ */
+export class RenderSourceMap {
+  constructor(
+    private readonly template: string,
+    private readonly output: string,
+    private readonly segments: SourceMapSegment[]
+  ) {}
+
+  /**
+   * Find the segment that produced the output character at the given offset
+   */
+  public findSegment(outputOffset: number): SourceMapSegment | undefined {
+    let last: SourceMapSegment | undefined;
+
+    for (const segment of this.segments) {
+      if (segment.outputEnd <= segment.outputStart) {
+        continue; // Empty values occupy no output
+      }
+      if (outputOffset >= segment.outputStart && outputOffset < segment.outputEnd) {
+        return segment;
+      }
+      last = segment;
+    }
+
+    // Errors reported past the end of the output (e.g. "unexpected end of input") belong to the last segment
+    return outputOffset >= this.output.length ? last : undefined;
+  }
+
+  /**
+   * Map an output range to a template range
+   */
+  public toTemplateRange(outputStart: number, outputEnd: number): { start: number; end: number; segment?: SourceMapSegment } {
+    const segment = this.findSegment(outputStart);
+
+    if (!segment) {
+      return { start: 0, end: 0 };
+    }
+
+    if (segment.kind === SourceMapSegmentKind.Value || segment.partial) {
+      return { start: segment.templateStart, end: segment.templateEnd, segment };
+    }
+
+    const start = segment.templateStart + Math.min(outputStart - segment.outputStart, segment.templateEnd - segment.templateStart);
+    const end = Math.min(start + Math.max(outputEnd - outputStart, 1), segment.templateEnd, lineEndAt(this.template, start));
+
+    return { start, end: Math.max(end, start), segment };
+  }
+
+  /**
+   * Re-anchor a validation error reported against the rendered output onto the template
+   */
+  public mapValidationError(error: ValidationError): ValidationError {
+    const outputStart = offsetAt(this.output, error.line, error.column);
+    const { start, end, segment } = this.toTemplateRange(outputStart, outputStart + (error.length || 1));
+
+    if (!segment) {
+      return { ...error, fixes: undefined };
+    }
+
+    const location = lineColumnAt(this.template, start);
+    const origin = this.describeOrigin(segment, outputStart);
+
+    return {
+      ...error,
+      line: location.line,
+      column: location.column,
+      length: Math.max(end - start, 1),
+      message: origin ? `${error.message} (${origin})` : error.message,
+      fixes: error.fixes ? this.mapFixes(error.fixes) : undefined,
+    };
+  }
+
+  /**
+   * Move fixes onto the template, dropping those that would edit context values or partials
+   */
+  public mapFixes(fixes: ValidationFix[]): ValidationFix[] | undefined {
+    const mapped = fixes
+      .filter((fix) => fix.edits.every((edit) => this.mapEdit(edit)))
+      .map((fix) => ({
+        ...fix,
+        edits: fix.edits.map((edit) => this.mapEdit(edit)!),
+      }));
+
+    return mapped.length > 0 ? mapped : undefined;
+  }
+
+  /**
+   * Map an edit of the output onto the literal template text that produced it
+   */
+  private mapEdit(edit: ValidationFixEdit): ValidationFixEdit | undefined {
+    const segment = this.segments.find(
+      (s) =>
+        s.outputEnd > s.outputStart &&
+        s.outputStart <= edit.start &&
+        edit.end <= s.outputEnd &&
+        (edit.start < s.outputEnd || edit.start === edit.end)
+    );
+
+    // Only text copied verbatim can be edited in place
+    if (
+      !segment ||
+      segment.kind !== SourceMapSegmentKind.Text ||
+      segment.partial ||
+      segment.templateEnd - segment.templateStart !== segment.outputEnd - segment.outputStart
+    ) {
+      return undefined;
+    }
+
+    const shift = segment.templateStart - segment.outputStart;
+    return { start: edit.start + shift, end: edit.end + shift, newText: edit.newText };
+  }
+
+  /**
+   * Describe the context value or section iteration involved in producing an output position
+   */
+  private describeOrigin(segment: SourceMapSegment, outputOffset: number): string {
+    if (segment.partial) {
+      return `rendered by partial "${segment.partial}"`;
+    }
+
+    // Blame a value only for characters it rendered - or when it rendered nothing right where the error is, as an empty
+    // value before a comma does. A literal character after a non-empty value is the template's own text.
+    const valueSegment =
+      segment.kind === SourceMapSegmentKind.Value
+        ? segment
+        : this.segments.find(
+            (s) => s.kind === SourceMapSegmentKind.Value && s.outputStart === outputOffset && s.outputEnd === outputOffset
+          );
+
+    if (valueSegment) {
+      return `context value ${valueSegment.contextPath} = ${formatValuePreview(valueSegment.value, MAX_VALUE_PREVIEW_LENGTH)}`;
+    }
+
+    if (segment.scopePath) {
+      return `while rendering ${segment.scopePath}`;
+    }
+
+    return "";
+  }
+}
@@ -1,16 +1,39 @@
-import * as vscode from "vscode";
-import * as Mustache from "mustache";
-import { TemplateContext, RenderOptions, RenderResult } from "../core/types";
+import {
+  TemplateContext,
+  RenderOptions,
+  RenderResult,
+  ValidationError,
+  MustacheRootNode,
+  MustacheNodeType,
+  ContextSchema,
+} from "../core/types";
 import { ConfigurationManager } from "../core/config";
+import { ERROR_CODES } from "../core/constants";
+import { ContextLoader } from "./contextLoader";
+import { TemplateParser } from "./templateParser";
+import { TemplateCompileError, TemplateRenderer } from "./templateRenderer";
+import { EscapeService } from "./escapeService";
+import { SchemaInferrer } from "./schemaInferrer";
+import { RenderSourceMap } from "./sourceMap";
+import { walkNodes } from "../utils/astUtils";
 
 export class TemplateEngine {
   private configManager: ConfigurationManager;
+  private contextSubscription: { dispose(): void };
+  private contextLoader = new ContextLoader();
+  private escapeService = EscapeService.getInstance();
+  private parser = new TemplateParser();
+  private renderer = new TemplateRenderer();
+  private schemaInferrer = new SchemaInferrer();
   private renderCache = new Map<string, { result: RenderResult; timestamp: number }>();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
   constructor() {
     this.configManager = ConfigurationManager.getInstance();
 
+    // Renders without an explicit context used the context file, so they are stale once it changes
+    this.contextSubscription = this.configManager.onContextChanged(() => this.renderCache.clear());
+
     // Clear cache periodically
     setInterval(() => {
       this.cleanupCache();
@@ -35,18 +58,20 @@ export class TemplateEngine {
       const renderContext = context || (await this.getDefaultContext());
 
       // Parse template to extract variables and sections
-      const parsed = Mustache.parse(template);
+      const parsed = this.parser.parse(template);
       const extractedVars = this.extractVariables(parsed);
       const extractedSections = this.extractSections(parsed);
 
-      // Render the template
-      const output = Mustache.render(template, renderContext, options?.partials);
+      // Render the template, tracking where each output character came from
+      const escape = options?.escape || this.escapeService.getEscapeFunction();
+      const { output, segments } = this.renderer.render(template, renderContext, options?.partials, escape);
 
       const result: RenderResult = {
         output,
         success: true,
         variables: extractedVars,
         sections: extractedSections,
+        sourceMap: segments,
       };
 
       // Cache the result
@@ -54,13 +79,7 @@ export class TemplateEngine {
 
       return result;
     } catch (error) {
-      return {
-        output: "",
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown rendering error",
-        variables: [],
-        sections: [],
-      };
+      return this.createFailedResult(error);
     }
   }
 
@@ -70,36 +89,46 @@ export class TemplateEngine {
   public renderTemplateSync(template: string, context: TemplateContext = {}, options?: RenderOptions): RenderResult {
     try {
       // Parse template
-      const parsed = Mustache.parse(template);
+      const parsed = this.parser.parse(template);
       const extractedVars = this.extractVariables(parsed);
       const extractedSections = this.extractSections(parsed);
 
       // Render
-      const output = Mustache.render(template, context, options?.partials);
+      const escape = options?.escape || this.escapeService.getEscapeFunction();
+      const { output, segments } = this.renderer.render(template, context, options?.partials, escape);
 
       return {
         output,
         success: true,
         variables: extractedVars,
         sections: extractedSections,
+        sourceMap: segments,
       };
     } catch (error) {
-      return {
-        output: "",
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown rendering error",
-        variables: [],
-        sections: [],
-      };
+      return this.createFailedResult(error);
     }
   }
 
+  /**
+   * Describe a failed render, telling templates mustache.js would reject from ones that fail with this context
+   */
+  private createFailedResult(error: unknown): RenderResult {
+    return {
+      output: "",
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown rendering error",
+      errorCode: error instanceof TemplateCompileError ? ERROR_CODES.TEMPLATE_COMPILE_ERROR : ERROR_CODES.RENDER_ERROR,
+      variables: [],
+      sections: [],
+    };
+  }
+
   /**
    * Validate template syntax without rendering
    */
   public validateTemplate(template: string): { isValid: boolean; error?: string } {
     try {
-      Mustache.parse(template);
+      this.renderer.assertRenderable(this.parser.parse(template));
       return { isValid: true };
     } catch (error) {
       return {
@@ -109,67 +138,52 @@ export class TemplateEngine {
     }
   }
 
+  /**
+   * Re-anchor errors found in the rendered output onto the template that produced it
+   */
+  public mapOutputErrors(errors: ValidationError[], renderResult: RenderResult, template: string): ValidationError[] {
+    if (!renderResult.sourceMap) {
+      return errors.map((error) => ({ ...error, fixes: undefined })); // Their fixes edit the output, not the template
+    }
+
+    const sourceMap = new RenderSourceMap(template, renderResult.output, renderResult.sourceMap);
+    return errors.map((error) => sourceMap.mapValidationError(error));
+  }
+
+  /**
+   * Infer a JSON Schema describing the context a template expects
+   */
+  public inferContextSchema(template: string, title?: string): ContextSchema {
+    return this.schemaInferrer.infer(template, title);
+  }
+
   /**
    * Extract variables from parsed template
    */
-  private extractVariables(parsed: any[]): string[] {
+  private extractVariables(parsed: MustacheRootNode): string[] {
     const variables = new Set<string>();
 
-    const extractFromTokens = (tokens: any[]) => {
-      for (const token of tokens) {
-        if (Array.isArray(token)) {
-          const [type, name] = token;
-
-          switch (type) {
-            case "name":
-            case "&":
-            case "{":
-              if (name) {
-                variables.add(name);
-              }
-              break;
-            case "#":
-            case "^":
-              if (name) {
-                variables.add(name);
-              }
-              // Process nested tokens
-              if (token[4] && Array.isArray(token[4])) {
-                extractFromTokens(token[4]);
-              }
-              break;
-          }
-        }
+    walkNodes(parsed.children, (node) => {
+      if ((node.type === MustacheNodeType.Variable || node.type === MustacheNodeType.Section) && node.name) {
+        variables.add(node.name);
       }
-    };
+    });
 
-    extractFromTokens(parsed);
     return Array.from(variables);
   }
 
   /**
    * Extract sections from parsed template
    */
-  private extractSections(parsed: any[]): string[] {
+  private extractSections(parsed: MustacheRootNode): string[] {
     const sections = new Set<string>();
 
-    const extractFromTokens = (tokens: any[]) => {
-      for (const token of tokens) {
-        if (Array.isArray(token)) {
-          const [type, name] = token;
-
-          if ((type === "#" || type === "^") && name) {
-            sections.add(name);
-            // Process nested tokens
-            if (token[4] && Array.isArray(token[4])) {
-              extractFromTokens(token[4]);
-            }
-          }
-        }
+    walkNodes(parsed.children, (node) => {
+      if (node.type === MustacheNodeType.Section && node.name) {
+        sections.add(node.name);
       }
-    };
+    });
 
-    extractFromTokens(parsed);
     return Array.from(sections);
   }
 
@@ -177,13 +191,7 @@ export class TemplateEngine {
    * Get default context from configuration
    */
   private async getDefaultContext(): Promise<TemplateContext> {
-    const contextInfo = await this.configManager.getContextFileInfo();
-
-    if (contextInfo && contextInfo.isValid && contextInfo.content) {
-      return contextInfo.content;
-    }
-
-    return {};
+    return (await this.contextLoader.loadContext()) || {};
   }
 
   /**
@@ -192,7 +200,8 @@ export class TemplateEngine {
   private generateCacheKey(template: string, context?: TemplateContext, options?: RenderOptions): string {
     const contextStr = JSON.stringify(context || {});
     const optionsStr = JSON.stringify(options || {});
-    return `${template.length}:${this.hashString(template + contextStr + optionsStr)}`;
+    const escapeStr = options?.escape ? options.escape.toString() : this.escapeService.getCacheKey();
+    return `${template.length}:${this.hashString(template + contextStr + optionsStr + escapeStr)}`;
   }
 
   /**
@@ -225,6 +234,7 @@ export class TemplateEngine {
    */
   public clearCache(): void {
     this.renderCache.clear();
+    this.escapeService.clearCache();
   }
 
   /**
@@ -242,7 +252,7 @@ export class TemplateEngine {
    */
   public async previewTemplate(template: string): Promise<RenderResult> {
     // Extract variables from template
-    const parsed = Mustache.parse(template);
+    const parsed = this.parser.parse(template);
     const variables = this.extractVariables(parsed);
     const sections = this.extractSections(parsed);
 
@@ -370,6 +380,7 @@ export class TemplateEngine {
    * Dispose resources
    */
   public dispose(): void {
+    this.contextSubscription.dispose();
     this.clearCache();
   }
 }
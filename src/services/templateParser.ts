@@ -0,0 +1,537 @@
+import {
+  MustacheTag,
+  MustacheTagType,
+  MustacheNode,
+  MustacheNodeType,
+  MustacheRootNode,
+  MustacheParentNode,
+  MustacheSectionNode,
+  MustacheErrorNode,
+  ValidationFix,
+} from "../core/types";
+import { ERROR_CODES } from "../core/constants";
+
+const DEFAULT_OPEN_DELIMITER = "{{";
+const DEFAULT_CLOSE_DELIMITER = "}}";
+
+const TAG_TYPES: { [typeChar: string]: MustacheTagType } = {
+  "#": MustacheTagType.Section,
+  "^": MustacheTagType.Inverted,
+  "/": MustacheTagType.Closing,
+  ">": MustacheTagType.Partial,
+  "!": MustacheTagType.Comment,
+  "=": MustacheTagType.Delimiter,
+  "&": MustacheTagType.Unescaped,
+  "{": MustacheTagType.Unescaped,
+};
+
+type LexItem =
+  | { kind: "text"; start: number; end: number; strip?: boolean }
+  | { kind: "tag"; tag: MustacheTag; indentation?: string; indentFirstLine?: boolean }
+  | { kind: "error"; error: MustacheErrorNode };
+
+interface TagScanResult {
+  tag?: MustacheTag;
+  error?: MustacheErrorNode;
+  next: number; // Where scanning resumes; text before it is kept as plain text when no tag was produced
+}
+
+/**
+ * Parses Mustache templates into a positioned AST.
+ *
+ * Follows mustache.js tokenization (set-delimiter tags, triple mustaches, standalone lines) but never throws:
+ * lexical problems become error nodes and mismatched sections are recovered so the tree stays usable while typing.
+ */
+export class TemplateParser {
+  private lastText?: string;
+  private lastAst?: MustacheRootNode;
+
+  /**
+   * Parse a template into an AST (the last result is reused for identical text)
+   */
+  public parse(text: string): MustacheRootNode {
+    if (this.lastAst && this.lastText === text) {
+      return this.lastAst;
+    }
+
+    const items = this.markStandaloneLines(text, this.tokenize(text));
+    const ast = this.buildTree(text, items);
+
+    this.lastText = text;
+    this.lastAst = ast;
+
+    return ast;
+  }
+
+  /**
+   * Split the template into text runs, tags and recovered errors
+   */
+  private tokenize(text: string): LexItem[] {
+    const items: LexItem[] = [];
+    let openDelimiter = DEFAULT_OPEN_DELIMITER;
+    let closeDelimiter = DEFAULT_CLOSE_DELIMITER;
+    let position = 0;
+
+    const pushText = (start: number, end: number) => {
+      if (end > start) {
+        items.push({ kind: "text", start, end });
+      }
+    };
+
+    while (position < text.length) {
+      let tagStart = text.indexOf(openDelimiter, position);
+
+      if (tagStart === -1) {
+        pushText(position, text.length);
+        break;
+      }
+
+      // Four or more braces can never form a tag - keep the extras as text and parse the rest as a triple mustache
+      if (openDelimiter === DEFAULT_OPEN_DELIMITER) {
+        let braceCount = 0;
+        while (text[tagStart + braceCount] === "{") {
+          braceCount++;
+        }
+
+        if (braceCount >= 4) {
+          items.push({
+            kind: "error",
+            error: this.createError(
+              "Too many opening braces - use {{ or {{{",
+              tagStart,
+              tagStart + braceCount,
+              ERROR_CODES.MUSTACHE_SYNTAX_ERROR,
+              [
+                {
+                  title: "Remove the extra braces",
+                  edits: [{ start: tagStart, end: tagStart + braceCount - 3, newText: "" }],
+                  isPreferred: true,
+                },
+              ]
+            ),
+          });
+          tagStart += braceCount - 3;
+        }
+      }
+
+      pushText(position, tagStart);
+
+      const result = this.scanTag(text, tagStart, openDelimiter, closeDelimiter);
+
+      if (result.error) {
+        items.push({ kind: "error", error: result.error });
+      }
+
+      if (!result.tag) {
+        pushText(tagStart, result.next);
+        position = result.next;
+        continue;
+      }
+
+      items.push({ kind: "tag", tag: result.tag });
+      position = result.next;
+
+      if (result.tag.type === MustacheTagType.Delimiter) {
+        const delimiters = this.parseDelimiters(result.tag.name);
+        if (delimiters) {
+          [openDelimiter, closeDelimiter] = delimiters;
+        } else {
+          items.push({
+            kind: "error",
+            error: this.createError(
+              `Invalid set delimiter tag - expected ${openDelimiter}=<open> <close>=${closeDelimiter}`,
+              result.tag.start,
+              result.tag.end,
+              ERROR_CODES.MUSTACHE_SYNTAX_ERROR
+            ),
+          });
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Scan a single tag starting at an opening delimiter
+   */
+  private scanTag(text: string, start: number, openDelimiter: string, closeDelimiter: string): TagScanResult {
+    let position = this.skipWhitespace(text, start + openDelimiter.length);
+    let type = MustacheTagType.Variable;
+    let isTripleBrace = false;
+
+    const typeIndex = position;
+    const typeChar = text[position];
+    if (typeChar in TAG_TYPES) {
+      type = TAG_TYPES[typeChar];
+      isTripleBrace = typeChar === "{";
+      position = this.skipWhitespace(text, position + 1);
+    }
+
+    const nameStart = position;
+    let closeIndex = text.indexOf(isTripleBrace ? "}" + closeDelimiter : closeDelimiter, position);
+    let closeLength = isTripleBrace ? closeDelimiter.length + 1 : closeDelimiter.length;
+    let error: MustacheErrorNode | undefined;
+
+    // {{{name}} - recover by closing the tag at the plain delimiter
+    if (isTripleBrace) {
+      const plainClose = text.indexOf(closeDelimiter, position);
+      if (plainClose !== -1 && (closeIndex === -1 || plainClose < closeIndex)) {
+        error = this.createError(
+          "Mismatched braces - triple braces need triple closing: {{{...}}}",
+          start,
+          plainClose + closeDelimiter.length,
+          ERROR_CODES.MUSTACHE_SYNTAX_ERROR,
+          [
+            { title: 'Close with "}}}"', edits: [{ start: plainClose, end: plainClose, newText: "}" }], isPreferred: true },
+            { title: 'Open with "{{"', edits: [{ start: typeIndex, end: typeIndex + 1, newText: "" }] },
+          ]
+        );
+        closeIndex = plainClose;
+        closeLength = closeDelimiter.length;
+      }
+    }
+
+    if (type !== MustacheTagType.Comment) {
+      const nextOpen = text.indexOf(openDelimiter, position);
+
+      if (nextOpen !== -1 && (closeIndex === -1 || nextOpen < closeIndex)) {
+        // A new tag starts before this one closes: on the same line it's nested, otherwise this tag was never closed
+        if (closeIndex !== -1 && !text.substring(start, nextOpen).includes("\n")) {
+          return {
+            error: this.createError(
+              "Nested Mustache tags are not allowed",
+              start,
+              nextOpen + openDelimiter.length,
+              ERROR_CODES.NESTED_SECTIONS
+            ),
+            next: nextOpen,
+          };
+        }
+        closeIndex = -1;
+      }
+    }
+
+    if (closeIndex === -1) {
+      return {
+        error: this.createError(
+          `Unclosed Mustache tag - missing closing "${closeDelimiter}"`,
+          start,
+          start + openDelimiter.length,
+          ERROR_CODES.UNCLOSED_TAG,
+          this.getUnclosedTagFixes(text, nameStart, isTripleBrace ? "}" + closeDelimiter : closeDelimiter)
+        ),
+        next: start + openDelimiter.length,
+      };
+    }
+
+    let nameEnd = closeIndex;
+    while (nameEnd > nameStart && /\s/.test(text[nameEnd - 1])) {
+      nameEnd--;
+    }
+
+    // {{=<% %>=}} - the name is the delimiter pair without the trailing "="
+    if (type === MustacheTagType.Delimiter && text[nameEnd - 1] === "=") {
+      nameEnd--;
+      while (nameEnd > nameStart && /\s/.test(text[nameEnd - 1])) {
+        nameEnd--;
+      }
+    }
+
+    return {
+      tag: {
+        type,
+        name: text.substring(nameStart, nameEnd),
+        start,
+        end: closeIndex + closeLength,
+        nameStart,
+        nameEnd,
+        openDelimiter,
+        closeDelimiter,
+        isTripleBrace,
+        standalone: false,
+      },
+      error,
+      next: closeIndex + closeLength,
+    };
+  }
+
+  /**
+   * Apply the standalone-line rule: a line holding only non-variable tags and whitespace renders nothing
+   */
+  private markStandaloneLines(text: string, tokens: LexItem[]): LexItem[] {
+    const items: LexItem[] = [];
+    let lineItems: LexItem[] = [];
+    let hasTag = false;
+    let nonSpace = false;
+    let hasText = false; // Non-whitespace text, not counting tags
+    let tagCount = 0;
+    let indentation = ""; // The line's text so far with every other character blanked, like mustache.js
+
+    const endLine = () => {
+      if (hasTag && !nonSpace) {
+        for (const item of lineItems) {
+          if (item.kind === "text") {
+            item.strip = true;
+          } else if (item.kind === "tag") {
+            item.tag.standalone = true;
+          }
+        }
+      }
+
+      lineItems = [];
+      hasTag = false;
+      nonSpace = false;
+      hasText = false;
+      tagCount = 0;
+      indentation = "";
+    };
+
+    for (const token of tokens) {
+      if (token.kind === "text") {
+        let pieceStart = token.start;
+
+        while (pieceStart < token.end) {
+          const newline = text.indexOf("\n", pieceStart);
+          const pieceEnd = newline === -1 || newline >= token.end ? token.end : newline + 1;
+          const piece: LexItem = { kind: "text", start: pieceStart, end: pieceEnd };
+          const pieceText = text.substring(pieceStart, pieceEnd);
+
+          items.push(piece);
+          lineItems.push(piece);
+
+          if (/\S/.test(pieceText)) {
+            nonSpace = true;
+            hasText = true;
+          }
+          indentation += pieceText.replace(/\S/g, " ");
+
+          if (pieceText.endsWith("\n")) {
+            endLine();
+          }
+
+          pieceStart = pieceEnd;
+        }
+      } else if (token.kind === "tag") {
+        hasTag = true;
+
+        if (token.tag.type === MustacheTagType.Variable || token.tag.type === MustacheTagType.Unescaped) {
+          nonSpace = true;
+        } else if (token.tag.type === MustacheTagType.Partial && tagCount === 0) {
+          // mustache.js indents a partial that is the first tag on its line, even after other text
+          token.indentation = indentation;
+          token.indentFirstLine = !hasText;
+        }
+        tagCount++;
+
+        items.push(token);
+        lineItems.push(token);
+      } else {
+        items.push(token);
+      }
+    }
+
+    endLine();
+
+    return items;
+  }
+
+  /**
+   * Build the node tree, pairing sections and recovering from mismatched closing tags
+   */
+  private buildTree(text: string, items: LexItem[]): MustacheRootNode {
+    const root: MustacheRootNode = {
+      type: MustacheNodeType.Root,
+      start: 0,
+      end: text.length,
+      children: [],
+      tags: [],
+      errors: [],
+      unmatchedTags: [],
+    };
+
+    const stack: MustacheParentNode[] = [root];
+    let pendingText: { start: number; end: number } | undefined;
+
+    const addChild = (node: MustacheNode) => {
+      const parent = stack[stack.length - 1];
+      node.parent = parent;
+      parent.children.push(node);
+    };
+
+    const flushText = () => {
+      if (pendingText) {
+        addChild({
+          type: MustacheNodeType.Text,
+          start: pendingText.start,
+          end: pendingText.end,
+          value: text.substring(pendingText.start, pendingText.end),
+        });
+        pendingText = undefined;
+      }
+    };
+
+    for (const item of items) {
+      if (item.kind === "text") {
+        if (item.strip) {
+          flushText();
+        } else if (pendingText && pendingText.end === item.start) {
+          pendingText.end = item.end;
+        } else {
+          flushText();
+          pendingText = { start: item.start, end: item.end };
+        }
+        continue;
+      }
+
+      flushText();
+
+      if (item.kind === "error") {
+        addChild(item.error);
+        root.errors.push(item.error);
+        continue;
+      }
+
+      const tag = item.tag;
+      root.tags.push(tag);
+
+      switch (tag.type) {
+        case MustacheTagType.Variable:
+        case MustacheTagType.Unescaped:
+          addChild({
+            type: MustacheNodeType.Variable,
+            start: tag.start,
+            end: tag.end,
+            name: tag.name,
+            tag,
+            isEscaped: tag.type === MustacheTagType.Variable,
+          });
+          break;
+
+        case MustacheTagType.Section:
+        case MustacheTagType.Inverted: {
+          const section: MustacheSectionNode = {
+            type: MustacheNodeType.Section,
+            start: tag.start,
+            end: text.length,
+            name: tag.name,
+            inverted: tag.type === MustacheTagType.Inverted,
+            openTag: tag,
+            children: [],
+          };
+          addChild(section);
+          stack.push(section);
+          break;
+        }
+
+        case MustacheTagType.Closing:
+          this.closeSection(stack, tag, root);
+          break;
+
+        case MustacheTagType.Partial:
+          addChild({
+            type: MustacheNodeType.Partial,
+            start: tag.start,
+            end: tag.end,
+            name: tag.name,
+            tag,
+            indentation: item.indentation || "",
+            indentFirstLine: item.indentFirstLine !== false,
+          });
+          break;
+
+        case MustacheTagType.Comment:
+          addChild({ type: MustacheNodeType.Comment, start: tag.start, end: tag.end, content: tag.name, tag });
+          break;
+
+        case MustacheTagType.Delimiter: {
+          const delimiters = this.parseDelimiters(tag.name);
+          if (delimiters) {
+            addChild({
+              type: MustacheNodeType.Delimiter,
+              start: tag.start,
+              end: tag.end,
+              tag,
+              openDelimiter: delimiters[0],
+              closeDelimiter: delimiters[1],
+            });
+          }
+          break;
+        }
+      }
+    }
+
+    flushText();
+
+    return root;
+  }
+
+  /**
+   * Close the innermost open section with a matching name; sections opened after it stay unclosed
+   */
+  private closeSection(stack: MustacheParentNode[], tag: MustacheTag, root: MustacheRootNode): void {
+    for (let i = stack.length - 1; i > 0; i--) {
+      const section = stack[i] as MustacheSectionNode;
+
+      if (section.name === tag.name) {
+        for (let j = stack.length - 1; j > i; j--) {
+          stack[j].end = tag.start;
+        }
+
+        section.closeTag = tag;
+        section.end = tag.end;
+        stack.length = i;
+        return;
+      }
+    }
+
+    root.unmatchedTags.push(tag);
+  }
+
+  /**
+   * Split a set-delimiter tag value ("<% %>") into its two delimiters
+   */
+  private parseDelimiters(value: string): [string, string] | null {
+    const parts = value.trim().split(/\s+/);
+
+    if (parts.length !== 2 || parts.some((part) => !part || part.includes("="))) {
+      return null;
+    }
+
+    return [parts[0], parts[1]];
+  }
+
+  /**
+   * Skip whitespace from a position
+   */
+  private skipWhitespace(text: string, position: number): number {
+    while (position < text.length && /\s/.test(text[position])) {
+      position++;
+    }
+    return position;
+  }
+
+  /**
+   * Close an unclosed tag right after its name, if it has one
+   */
+  private getUnclosedTagFixes(text: string, nameStart: number, closeText: string): ValidationFix[] {
+    let nameEnd = nameStart;
+    while (nameEnd < text.length && /[\w.\-]/.test(text[nameEnd])) {
+      nameEnd++;
+    }
+
+    if (nameEnd === nameStart) {
+      return [];
+    }
+
+    return [{ title: `Insert "${closeText}"`, edits: [{ start: nameEnd, end: nameEnd, newText: closeText }], isPreferred: true }];
+  }
+
+  /**
+   * Create a recovered error node
+   */
+  private createError(message: string, start: number, end: number, code: string, fixes?: ValidationFix[]): MustacheErrorNode {
+    const error: MustacheErrorNode = { type: MustacheNodeType.Error, start, end, message, code };
+    return fixes && fixes.length > 0 ? { ...error, fixes } : error;
+  }
+}
@@ -0,0 +1,235 @@
+import * as Mustache from "mustache";
+import {
+  TemplateContext,
+  EscapeFunction,
+  SourceMapSegment,
+  SourceMapSegmentKind,
+  MustacheNode,
+  MustacheNodeType,
+  MustacheRootNode,
+  MustacheSectionNode,
+  MustachePartialNode,
+  ContextFrame,
+  ContextLookupResult,
+} from "../core/types";
+import { TemplateParser } from "./templateParser";
+import { VariableResolver } from "./variableResolver";
+import { collectSections } from "../utils/astUtils";
+import { PERFORMANCE_LIMITS } from "../core/constants";
+
+interface RenderState {
+  output: string;
+  segments: SourceMapSegment[];
+  escape: EscapeFunction;
+  // When rendering a partial, every segment is attributed to the including {{>partial}} tag
+  partialTag?: { name: string; start: number; end: number };
+  partialDepth: number;
+}
+
+export interface SourceMappedOutput {
+  output: string;
+  segments: SourceMapSegment[];
+}
+
+/**
+ * Thrown for templates mustache.js would refuse to render at all, e.g. with a section that is never closed
+ */
+export class TemplateCompileError extends Error {}
+
+/**
+ * Mustache renderer that records which template text, tag or context value produced each output character.
+ * Rendering semantics follow mustache.js (context stack lookup, standalone lines, partial indentation).
+ */
+export class TemplateRenderer {
+  private parser = new TemplateParser();
+  private partialParser = new TemplateParser();
+  private resolver = new VariableResolver();
+
+  /**
+   * Render a template and build its source map
+   */
+  public render(
+    template: string,
+    context: TemplateContext,
+    partials?: { [name: string]: string },
+    escape: EscapeFunction = Mustache.escape
+  ): SourceMappedOutput {
+    const state: RenderState = { output: "", segments: [], escape, partialDepth: 0 };
+    const ast = this.parser.parse(template);
+
+    this.assertRenderable(ast);
+    this.renderNodes(ast.children, [{ view: context, path: "" }], state, partials);
+
+    return { output: state.output, segments: state.segments };
+  }
+
+  /**
+   * Reject templates that mustache.js would refuse to render
+   */
+  public assertRenderable(ast: MustacheRootNode): void {
+    if (ast.errors.length > 0) {
+      throw new TemplateCompileError(`${ast.errors[0].message} at ${ast.errors[0].start}`);
+    }
+
+    if (ast.unmatchedTags.length > 0) {
+      throw new TemplateCompileError(`Unopened section "${ast.unmatchedTags[0].name}" at ${ast.unmatchedTags[0].start}`);
+    }
+
+    const unclosed = collectSections(ast).find((section) => !section.closeTag);
+    if (unclosed) {
+      throw new TemplateCompileError(`Unclosed section "${unclosed.name}" at ${unclosed.end}`);
+    }
+  }
+
+  /**
+   * Render a list of AST nodes into the state buffer
+   */
+  private renderNodes(nodes: MustacheNode[], frames: ContextFrame[], state: RenderState, partials?: { [name: string]: string }): void {
+    for (const node of nodes) {
+      switch (node.type) {
+        case MustacheNodeType.Text:
+          this.emit(state, node.value, SourceMapSegmentKind.Text, node.start, node.end, frames);
+          break;
+
+        case MustacheNodeType.Variable: {
+          const lookup = this.resolver.lookup(node.name, frames);
+          const rendered = this.renderValue(lookup.value, node.isEscaped ? state.escape : undefined);
+          this.emit(state, rendered, SourceMapSegmentKind.Value, node.start, node.end, frames, lookup);
+          break;
+        }
+
+        case MustacheNodeType.Section:
+          if (node.inverted) {
+            const lookup = this.resolver.lookup(node.name, frames);
+            if (!lookup.value || (Array.isArray(lookup.value) && lookup.value.length === 0)) {
+              this.renderNodes(node.children, frames, state, partials);
+            }
+          } else {
+            this.renderSection(node, frames, state, partials);
+          }
+          break;
+
+        case MustacheNodeType.Partial:
+          this.renderPartial(node, frames, state, partials);
+          break;
+
+        // Comments, set-delimiter tags and recovered errors produce no output
+      }
+    }
+  }
+
+  /**
+   * Render a {{#section}} node
+   */
+  private renderSection(
+    section: MustacheSectionNode,
+    frames: ContextFrame[],
+    state: RenderState,
+    partials?: { [name: string]: string }
+  ): void {
+    const lookup = this.resolver.lookup(section.name, frames);
+    const value = lookup.value;
+
+    if (!value) {
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        this.renderNodes(section.children, [...frames, { view: item, path: `${lookup.path}[${index}]` }], state, partials);
+      });
+    } else if (typeof value === "object" || typeof value === "string" || typeof value === "number") {
+      this.renderNodes(section.children, [...frames, { view: value, path: lookup.path }], state, partials);
+    } else if (typeof value !== "function") {
+      // Truthy scalar - render with the current context
+      this.renderNodes(section.children, frames, state, partials);
+    }
+  }
+
+  /**
+   * Render a {{>partial}} node, attributing its output to the partial tag
+   */
+  private renderPartial(
+    node: MustachePartialNode,
+    frames: ContextFrame[],
+    state: RenderState,
+    partials?: { [name: string]: string }
+  ): void {
+    const partial = partials?.[node.name];
+    if (partial === undefined || partial === null) {
+      return;
+    }
+
+    // Recursive partials stop when the data runs out; a cycle that does not consume data never would
+    if (state.partialDepth >= PERFORMANCE_LIMITS.MAX_PARTIAL_DEPTH) {
+      throw new Error(`Partial "${node.name}" is nested more than ${PERFORMANCE_LIMITS.MAX_PARTIAL_DEPTH} levels deep`);
+    }
+
+    const source = node.indentation ? this.indentPartial(partial, node.indentation, node.indentFirstLine) : partial;
+    const partialAst = this.partialParser.parse(source);
+    const outerTag = state.partialTag;
+
+    this.assertRenderable(partialAst);
+
+    state.partialTag = outerTag || { name: node.name, start: node.start, end: node.end };
+    state.partialDepth++;
+    this.renderNodes(partialAst.children, frames, state, partials);
+    state.partialDepth--;
+    state.partialTag = outerTag;
+  }
+
+  /**
+   * Indent the lines of a partial - the first one only when nothing but whitespace precedes the tag
+   */
+  private indentPartial(partial: string, indentation: string, indentFirstLine: boolean): string {
+    const filteredIndentation = indentation.replace(/[^ \t]/g, "");
+    return partial
+      .split("\n")
+      .map((line, index) => (line.length && (index > 0 || indentFirstLine) ? filteredIndentation + line : line))
+      .join("\n");
+  }
+
+  /**
+   * Convert a looked-up value to output text
+   */
+  private renderValue(value: any, escape?: EscapeFunction): string {
+    if (value === null || value === undefined || typeof value === "function") {
+      return "";
+    }
+
+    return escape ? escape(String(value)) : String(value);
+  }
+
+  /**
+   * Append output and record its source map segment
+   */
+  private emit(
+    state: RenderState,
+    text: string,
+    kind: SourceMapSegmentKind,
+    templateStart: number,
+    templateEnd: number,
+    frames: ContextFrame[],
+    lookup?: ContextLookupResult
+  ): void {
+    // Empty text needs no segment, but empty values are kept so errors next to them can name the missing value
+    if (!text && kind === SourceMapSegmentKind.Text) {
+      return;
+    }
+
+    const outputStart = state.output.length;
+    state.output += text;
+
+    state.segments.push({
+      outputStart,
+      outputEnd: state.output.length,
+      templateStart: state.partialTag ? state.partialTag.start : templateStart,
+      templateEnd: state.partialTag ? state.partialTag.end : templateEnd,
+      kind,
+      scopePath: frames[frames.length - 1].path,
+      contextPath: lookup?.path,
+      value: lookup?.value,
+      partial: state.partialTag?.name,
+    });
+  }
+}
@@ -0,0 +1,201 @@
+import {
+  ContextFrame,
+  ContextLookupResult,
+  MustacheRootNode,
+  MustacheSectionNode,
+  MustacheTag,
+  MustacheTagType,
+  ResolutionCandidate,
+  ResolutionScope,
+  TemplateContext,
+  VariableResolution,
+} from "../core/types";
+import { TemplateParser } from "./templateParser";
+import { SchemaInferrer, SectionRole } from "./schemaInferrer";
+import { collectSections, findTagAt, getEnclosingSections } from "../utils/astUtils";
+import { collapseArrayIndices } from "../utils/jsonPathUtils";
+
+// Tags whose name is looked up on the context stack
+const RESOLVABLE_TAG_TYPES = new Set([
+  MustacheTagType.Variable,
+  MustacheTagType.Unescaped,
+  MustacheTagType.Section,
+  MustacheTagType.Inverted,
+  MustacheTagType.Closing,
+]);
+
+/**
+ * Resolves names against the Mustache context stack - the innermost section item first, then each enclosing scope.
+ * Works on a concrete context (as the renderer does) and statically from the template alone.
+ */
+export class VariableResolver {
+  private parser = new TemplateParser();
+  private schemaInferrer = new SchemaInferrer();
+
+  /**
+   * Resolve the name at a position: the scopes it is looked up in and the candidate it resolves to
+   */
+  public resolveAt(template: string, offset: number, context?: TemplateContext, ast?: MustacheRootNode): VariableResolution {
+    const root = ast || this.parser.parse(template);
+    const tag = findTagAt(root, offset);
+    const roles = this.schemaInferrer.classifySections(template, root);
+
+    if (!tag || !RESOLVABLE_TAG_TYPES.has(tag.type)) {
+      return { tag, scopes: this.getScopes(roles, getEnclosingSections(root, offset), context), candidates: [] };
+    }
+
+    return this.resolveTag(root, tag, roles, collectSections(root), context);
+  }
+
+  /**
+   * Resolve every tag that looks up a name, in document order
+   */
+  public resolveTags(template: string, context?: TemplateContext, ast?: MustacheRootNode): VariableResolution[] {
+    const root = ast || this.parser.parse(template);
+    const roles = this.schemaInferrer.classifySections(template, root);
+    const sections = collectSections(root);
+
+    return root.tags.filter((tag) => RESOLVABLE_TAG_TYPES.has(tag.type)).map((tag) => this.resolveTag(root, tag, roles, sections, context));
+  }
+
+  /**
+   * Look up a name on the context stack using Mustache's resolution rules
+   */
+  public lookup(name: string, frames: ContextFrame[]): ContextLookupResult {
+    const current = frames[frames.length - 1];
+
+    if (name === ".") {
+      return { value: current.view, path: current.path, found: true };
+    }
+
+    const names = name.split(".");
+
+    for (let i = frames.length - 1; i >= 0; i--) {
+      const frame = frames[i];
+      let value = frame.view;
+      let found = false;
+      let index = 0;
+
+      while (value !== null && value !== undefined && index < names.length) {
+        if (index === names.length - 1) {
+          found = this.hasProperty(value, names[index], names.length > 1);
+        }
+        value = value[names[index++]];
+      }
+
+      if (found) {
+        return { value, path: this.joinPath(frame.path, name), found: true };
+      }
+    }
+
+    return { value: undefined, path: this.joinPath(current.path, name), found: false };
+  }
+
+  /**
+   * Resolve one tag's name on the scopes around it
+   */
+  private resolveTag(
+    root: MustacheRootNode,
+    tag: MustacheTag,
+    roles: Map<MustacheSectionNode, SectionRole>,
+    sections: MustacheSectionNode[],
+    context?: TemplateContext
+  ): VariableResolution {
+    // A closing tag names the same value as its opening tag, looked up outside the section
+    const section = tag.type === MustacheTagType.Closing ? sections.find((node) => node.closeTag === tag) : undefined;
+    const offset = section ? section.openTag.start : tag.start;
+    const scopes = this.getScopes(roles, getEnclosingSections(root, offset), context);
+    const candidates = this.getCandidates(tag.name, scopes);
+
+    return { tag, name: tag.name, scopes, candidates, resolved: candidates.find((candidate) => candidate.found) };
+  }
+
+  /**
+   * Build the scopes the enclosing sections push, innermost first. With a context, each list section is entered at its first item.
+   */
+  private getScopes(
+    roles: Map<MustacheSectionNode, SectionRole>,
+    sections: MustacheSectionNode[],
+    context?: TemplateContext
+  ): ResolutionScope[] {
+    const scopes: ResolutionScope[] = [{ path: "", contextPath: context ? "" : undefined, value: context }];
+    let frames: ContextFrame[] | undefined = context ? [{ view: context, path: "" }] : undefined;
+
+    for (const section of sections) {
+      if (section.inverted) {
+        continue; // {{^name}} renders in the enclosing scope
+      }
+
+      if (!frames) {
+        // No concrete context here - follow the shape the template implies
+        const role = roles.get(section);
+        if (role !== "flag") {
+          const path = this.joinPath(scopes[scopes.length - 1].path, section.name);
+          scopes.push({ section, path: role === "array" ? `${path}[]` : path });
+        }
+        continue;
+      }
+
+      const lookup = this.lookup(section.name, frames);
+      const value = lookup.value;
+      const path = collapseArrayIndices(lookup.path);
+
+      if (Array.isArray(value)) {
+        if (value.length > 0) {
+          const frame = { view: value[0], path: `${lookup.path}[0]` };
+          frames = [...frames, frame];
+          scopes.push({ section, path: `${path}[]`, contextPath: frame.path, value: frame.view, items: value.length });
+        } else {
+          frames = undefined;
+          scopes.push({ section, path: `${path}[]` });
+        }
+      } else if (value && (typeof value === "object" || typeof value === "string" || typeof value === "number")) {
+        frames = [...frames, { view: value, path: lookup.path }];
+        scopes.push({ section, path, contextPath: lookup.path, value });
+      } else if (!value) {
+        // The current context never renders this section
+        frames = undefined;
+        scopes.push({ section, path });
+      }
+
+      // Any other truthy value renders the section in the enclosing scope
+    }
+
+    return scopes.reverse();
+  }
+
+  /**
+   * Get the paths a name is looked up at, innermost scope first
+   */
+  private getCandidates(name: string, scopes: ResolutionScope[]): ResolutionCandidate[] {
+    if (name === ".") {
+      const scope = scopes[0];
+      return [{ path: scope.path, contextPath: scope.contextPath, found: scope.contextPath !== undefined, value: scope.value }];
+    }
+
+    return scopes.map((scope) => {
+      const path = this.joinPath(scope.path, name);
+      if (scope.contextPath === undefined) {
+        return { path, found: false };
+      }
+
+      const lookup = this.lookup(name, [{ view: scope.value, path: scope.contextPath }]);
+      return { path, contextPath: lookup.path, found: lookup.found, value: lookup.value };
+    });
+  }
+
+  /**
+   * Check whether a value exposes a property the way mustache.js does: objects through their prototype chain,
+   * primitives only through their own properties and only in dotted names - {{length}} inside a string item is looked up outside it
+   */
+  private hasProperty(value: any, property: string, isDotted: boolean): boolean {
+    if (typeof value === "object") {
+      return property in value;
+    }
+    return isDotted && Object.prototype.hasOwnProperty.call(value, property);
+  }
+
+  private joinPath(path: string, name: string): string {
+    return path ? `${path}.${name}` : name;
+  }
+}
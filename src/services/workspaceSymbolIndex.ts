@@ -0,0 +1,130 @@
+import * as vscode from "vscode";
+import { IndexedTemplateSymbol, TemplateOutlineNode } from "../core/types";
+import { PERFORMANCE_LIMITS } from "../core/constants";
+import { TemplateFileWatcher } from "./fileWatcher";
+import { TemplateOutlineBuilder } from "./outlineBuilder";
+import { createLineColumnLookup } from "../utils/rangeUtils";
+import { matchesFuzzy } from "../utils/stringUtils";
+import { readWorkspaceFile } from "../utils/fileUtils";
+
+/**
+ * Index of the JSON keys, sections and partials of every template in the workspace, kept up to date as files change
+ */
+export class WorkspaceSymbolIndex implements vscode.Disposable {
+  private outlineBuilder = new TemplateOutlineBuilder();
+  private watcher = new TemplateFileWatcher();
+  private symbols = new Map<string, IndexedTemplateSymbol[]>();
+  private editedDocuments = new Map<string, vscode.TextDocument>(); // Unsaved edits, indexed on the next query
+  private building?: Promise<void>;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.disposables.push(
+      this.watcher,
+      this.watcher.onDidChange((uri) => this.indexFile(uri)),
+      this.watcher.onDidDelete((uri) => this.removeFile(uri)),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (TemplateFileWatcher.isTemplateFile(event.document.uri)) {
+          this.editedDocuments.set(event.document.uri.toString(), event.document);
+        }
+      }),
+      // Closing a document discards its unsaved edits, so go back to the file on disk
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        if (TemplateFileWatcher.isTemplateFile(document.uri)) {
+          this.editedDocuments.delete(document.uri.toString());
+          this.indexFile(document.uri);
+        }
+      })
+    );
+  }
+
+  /**
+   * Index every template in the background; files can be searched as soon as they are indexed
+   */
+  public build(): Promise<void> {
+    if (!this.building) {
+      this.building = this.indexWorkspace();
+    }
+    return this.building;
+  }
+
+  /**
+   * Find the symbols whose name contains the query's characters in order
+   */
+  public query(query: string, token?: vscode.CancellationToken): IndexedTemplateSymbol[] {
+    for (const document of this.editedDocuments.values()) {
+      this.indexText(document.uri, document.getText());
+    }
+    this.editedDocuments.clear();
+
+    const results: IndexedTemplateSymbol[] = [];
+    for (const symbols of this.symbols.values()) {
+      if (token?.isCancellationRequested) {
+        break;
+      }
+
+      for (const symbol of symbols) {
+        if (matchesFuzzy(query, symbol.node.name)) {
+          results.push(symbol);
+          if (results.length >= PERFORMANCE_LIMITS.MAX_WORKSPACE_SYMBOLS) {
+            return results;
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private async indexWorkspace(): Promise<void> {
+    try {
+      const uris = await TemplateFileWatcher.findTemplates();
+      for (const uri of uris) {
+        // Files changed since the search started are already indexed
+        if (!this.symbols.has(uri.toString())) {
+          await this.indexFile(uri);
+        }
+      }
+    } catch (error) {
+      console.error("Failed to index workspace templates:", error);
+    }
+  }
+
+  private async indexFile(uri: vscode.Uri): Promise<void> {
+    const text = await readWorkspaceFile(uri);
+    if (text === undefined) {
+      this.removeFile(uri);
+    } else {
+      this.indexText(uri, text);
+    }
+  }
+
+  private indexText(uri: vscode.Uri, text: string): void {
+    const locate = createLineColumnLookup(text);
+    const toPosition = (offset: number) => {
+      const location = locate(offset);
+      return new vscode.Position(location.line - 1, location.column);
+    };
+
+    const symbols: IndexedTemplateSymbol[] = [];
+    const addSymbols = (nodes: TemplateOutlineNode[], container?: TemplateOutlineNode) => {
+      for (const node of nodes) {
+        symbols.push({ node, uri, range: new vscode.Range(toPosition(node.selectionStart), toPosition(node.selectionEnd)), container });
+        addSymbols(node.children, node);
+      }
+    };
+
+    addSymbols(this.outlineBuilder.build(text));
+    this.symbols.set(uri.toString(), symbols);
+  }
+
+  private removeFile(uri: vscode.Uri): void {
+    this.symbols.delete(uri.toString());
+    this.editedDocuments.delete(uri.toString());
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,29 @@
+import * as fs from "fs";
+import * as path from "path";
+import Mocha = require("mocha");
+
+/**
+ * Entry point the extension host calls: runs every *.test.js file below this folder
+ */
+export function run(): Promise<void> {
+  const mocha = new Mocha({ ui: "tdd", color: true });
+  findTestFiles(__dirname).forEach((file) => mocha.addFile(file));
+
+  return new Promise((resolve, reject) => {
+    try {
+      mocha.run((failures) => (failures > 0 ? reject(new Error(`${failures} tests failed`)) : resolve()));
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+function findTestFiles(directory: string): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      return findTestFiles(entryPath);
+    }
+    return entry.name.endsWith(".test.js") ? [entryPath] : [];
+  });
+}
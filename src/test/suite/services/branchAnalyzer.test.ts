@@ -0,0 +1,82 @@
+import * as assert from "assert";
+import { BranchAnalyzer } from "../../../services/branchAnalyzer";
+import { MustacheBranchValidator } from "../../../validators/mustache/branchValidator";
+import { BranchCounterexample, BranchState } from "../../../core/types";
+import { ERROR_CODES } from "../../../core/constants";
+
+function findAt(counterexamples: BranchCounterexample[], column: number): BranchCounterexample | undefined {
+  return counterexamples.find((counterexample) => counterexample.error.column === column);
+}
+
+suite("BranchAnalyzer", () => {
+  const analyzer = new BranchAnalyzer();
+
+  test("finds nothing when every branch combination renders valid JSON", () => {
+    assert.deepStrictEqual(analyzer.analyze('{"ids": [{{#ids}}{{.}}, {{/ids}}0], "name": "{{name}}"}'), []);
+  });
+
+  test("finds the combination where an absent section breaks the JSON", () => {
+    const template = '{ {{#a}}"a": 1{{/a}}{{#b}}, "b": 2{{/b}} }';
+    const counterexample = findAt(analyzer.analyze(template), template.indexOf(","));
+
+    assert.ok(counterexample);
+    assert.deepStrictEqual(counterexample.assignments, [
+      { name: "a", path: "a", state: BranchState.Absent },
+      { name: "b", path: "b", state: BranchState.Once },
+    ]);
+    assert.deepStrictEqual(counterexample.context, { a: false, b: true });
+  });
+
+  test("finds the combination where a section rendered once breaks the JSON", () => {
+    const template = '{"a": 1 {{#extra}}"b": 2{{/extra}}}';
+    const [counterexample] = analyzer.analyze(template);
+
+    assert.strictEqual(counterexample.error.column, template.indexOf('"b"'));
+    assert.deepStrictEqual(counterexample.assignments, [{ name: "extra", path: "extra", state: BranchState.Once }]);
+    assert.deepStrictEqual(counterexample.context, { extra: true });
+  });
+
+  test("finds the combination where a repeated section breaks the JSON", () => {
+    const template = '[{{#items}}{"id": {{id}}}{{/items}}]';
+    const [counterexample] = analyzer.analyze(template);
+
+    assert.strictEqual(counterexample.error.column, template.indexOf('{"id"'));
+    assert.deepStrictEqual(counterexample.assignments, [{ name: "items", path: "items", state: BranchState.Repeated }]);
+    assert.deepStrictEqual(counterexample.context, { items: [{ id: 1 }, { id: 1 }] });
+  });
+
+  test("names nested sections by their path through the enclosing lists", () => {
+    const template = '[{{#users}}{"tags": [{{#tags}}"{{.}}"{{/tags}}]}, {{/users}}0]';
+    const [counterexample] = analyzer.analyze(template);
+
+    assert.deepStrictEqual(counterexample.assignments, [
+      { name: "users", path: "users", state: BranchState.Once },
+      { name: "tags", path: "users[].tags", state: BranchState.Repeated },
+    ]);
+    assert.deepStrictEqual(counterexample.context, { users: [{ tags: [1, 1] }] });
+  });
+
+  test("does not repeat sections whose items are never read", () => {
+    const template = '{"flag": {{#flag}}true{{/flag}}{{^flag}}false{{/flag}}}';
+
+    assert.deepStrictEqual(analyzer.analyze(template), []);
+  });
+
+  test("sets separator flags on every item but the last", () => {
+    const template = '[{{#items}}{"id": {{id}}}{{#comma}},{{/comma}}{{/items}}]';
+
+    assert.deepStrictEqual(analyzer.analyze(template), []);
+  });
+});
+
+suite("MustacheBranchValidator", () => {
+  test("reports each counterexample as a warning with its context", () => {
+    const template = '{"a": 1 {{#extra}}"b": 2{{/extra}}}';
+    const [error] = new MustacheBranchValidator().validateSync(template);
+
+    assert.strictEqual(error.code, ERROR_CODES.BRANCH_INVALID_JSON);
+    assert.strictEqual(error.severity, "warning");
+    assert.strictEqual(error.column, template.indexOf('"b"'));
+    assert.match(error.message, /^Invalid JSON when extra has 1 item: .*Counterexample context: \{"extra":true\}$/);
+  });
+});
@@ -0,0 +1,80 @@
+import * as assert from "assert";
+import { ContextCoverageAnalyzer } from "../../../services/coverageAnalyzer";
+import { MustacheCoverageValidator } from "../../../validators/mustache/coverageValidator";
+import { ERROR_CODES } from "../../../core/constants";
+
+suite("ContextCoverageAnalyzer", () => {
+  const analyzer = new ContextCoverageAnalyzer();
+
+  test("reports tags the context cannot resolve with the scope they were looked up in", () => {
+    const template = '{"name": "{{name}}", "users": [{{#users}}"{{nick}}"{{/users}}], "extra": {{#extra}}1{{/extra}}}';
+    const { unresolved } = analyzer.analyze(template, { users: [{ name: "Ada" }] });
+
+    assert.deepStrictEqual(
+      unresolved.map(({ tag, isSection, scopePath }) => [tag.name, isSection, scopePath]),
+      [
+        ["name", false, ""],
+        ["nick", false, "users[0]"],
+        ["extra", true, ""],
+      ]
+    );
+  });
+
+  test("resolves names from enclosing frames and skips sections that do not render", () => {
+    const template = '{{#users}}"{{title}}: {{name}}"{{/users}}{{#missing}}{{other}}{{/missing}}{{^users}}{{empty}}{{/users}}';
+    const { unresolved } = analyzer.analyze(template, { title: "Dr", users: [{ name: "Ada" }], missing: false });
+
+    assert.deepStrictEqual(unresolved, []);
+  });
+
+  test("does not report separator flags set on only some items", () => {
+    const template = '[{{#items}}{"id": {{id}}}{{#comma}},{{/comma}}{{/items}}]';
+    const { unresolved } = analyzer.analyze(template, { items: [{ id: 1, comma: true }, { id: 2 }] });
+
+    assert.deepStrictEqual(unresolved, []);
+  });
+
+  test("lists the topmost keys nothing reads, including keys below scoped sections", () => {
+    const template = '{{#user}}"{{name}}"{{/user}}{{#users}}{{id}}{{/users}}{{address}}';
+    const context = {
+      user: { name: "Ada", email: "ada@example.com" },
+      users: [{ id: 1, age: 36 }],
+      address: { street: "Main St" },
+      unused: { nested: true },
+    };
+
+    assert.deepStrictEqual(analyzer.analyze(template, context).unusedKeys, ["user.email", "users[].age", "unused"]);
+  });
+
+  test("counts a key as read when a dotted name reads below it", () => {
+    const { unusedKeys } = analyzer.analyze("{{user.name}}", { user: { name: "Ada", email: "ada@example.com" } });
+
+    assert.deepStrictEqual(unusedKeys, ["user.email"]);
+  });
+});
+
+suite("MustacheCoverageValidator", () => {
+  const validator = new MustacheCoverageValidator();
+
+  test("reports unresolved tags as M005 warnings", () => {
+    const template = '{"name": "{{name}}", "users": [{{#users}}{{#admin}}1{{/admin}}{{/users}}]}';
+    const errors = validator.validateSync(template, { users: [{}] });
+
+    assert.deepStrictEqual(
+      errors.map((error) => [error.code, error.severity, error.column, error.message]),
+      [
+        [ERROR_CODES.UNKNOWN_VARIABLE, "warning", template.indexOf("{{name}}"), 'Unknown variable "name" - the context does not define it'],
+        [
+          ERROR_CODES.UNKNOWN_VARIABLE,
+          "warning",
+          template.indexOf("{{#admin}}"),
+          'Unknown section "admin" - not found in users[0] or any enclosing context',
+        ],
+      ]
+    );
+  });
+
+  test("reports nothing without a context", () => {
+    assert.deepStrictEqual(validator.validateSync("{{name}}"), []);
+  });
+});
@@ -0,0 +1,118 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { EscapeService } from "../../../services/escapeService";
+import { MustachePartialValidator } from "../../../validators/mustache/partialValidator";
+import { CONFIG_KEYS, CONFIG_SECTION } from "../../../core/constants";
+import { EscapeStrategy } from "../../../core/types";
+
+async function setEscapeStrategy(strategy: EscapeStrategy | undefined, customEscapeFunction?: string): Promise<void> {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  await config.update(CONFIG_KEYS.ESCAPE_STRATEGY, strategy, vscode.ConfigurationTarget.Global);
+  await config.update(CONFIG_KEYS.CUSTOM_ESCAPE_FUNCTION, customEscapeFunction, vscode.ConfigurationTarget.Global);
+}
+
+suite("EscapeService", () => {
+  const service = EscapeService.getInstance();
+  const moduleDirectory = path.join(os.tmpdir(), "mustache-json-escape-test");
+  const modulePath = (name: string) => path.join(moduleDirectory, name);
+
+  suiteSetup(() => {
+    fs.mkdirSync(moduleDirectory, { recursive: true });
+    fs.writeFileSync(modulePath("upper.js"), "module.exports = (value) => value.toUpperCase();\n");
+    fs.writeFileSync(modulePath("named.js"), "exports.escape = (value) => `<${value}>`;\n");
+    fs.writeFileSync(modulePath("invalid.js"), "module.exports = 42;\n");
+    fs.writeFileSync(modulePath("quote.js"), "module.exports = (value) => JSON.stringify(value);\n");
+  });
+
+  teardown(async () => {
+    service.clearCache();
+    await setEscapeStrategy(undefined);
+  });
+
+  suiteTeardown(() => {
+    fs.rmSync(moduleDirectory, { recursive: true, force: true });
+  });
+
+  test("escapes HTML by default, like Mustache.render", () => {
+    assert.strictEqual(service.getEscapeFunction()('<a href="x">&</a>'), "&lt;a href&#x3D;&quot;x&quot;&gt;&amp;&lt;&#x2F;a&gt;");
+  });
+
+  test("escapes for a JSON string", async () => {
+    await setEscapeStrategy("json-string");
+
+    assert.strictEqual(service.getEscapeFunction()('say "hi" & bye\n'), 'say \\"hi\\" & bye\\n');
+  });
+
+  test("leaves values as they are without escaping", async () => {
+    await setEscapeStrategy("none");
+
+    assert.strictEqual(service.getEscapeFunction()('"&"'), '"&"');
+  });
+
+  test("loads a custom escape function from a workspace module", async () => {
+    await setEscapeStrategy("custom", modulePath("upper.js"));
+    assert.strictEqual(service.getEscapeFunction()("abc"), "ABC");
+
+    await setEscapeStrategy("custom", modulePath("named.js"));
+    assert.strictEqual(service.getEscapeFunction()("abc"), "<abc>");
+  });
+
+  test("fails with a message when the custom escape function cannot be used", async () => {
+    await setEscapeStrategy("custom");
+    assert.throws(() => service.getEscapeFunction(), /customEscapeFunction is not set/);
+
+    await setEscapeStrategy("custom", modulePath("missing.js"));
+    assert.throws(() => service.getEscapeFunction(), /^Error: Failed to load custom escape function from /);
+
+    await setEscapeStrategy("custom", modulePath("invalid.js"));
+    assert.throws(() => service.getEscapeFunction(), /must export a function/);
+  });
+
+  test("falls back to HTML escaping without loading workspace code in an untrusted workspace", async () => {
+    const trust = Object.getOwnPropertyDescriptor(vscode.workspace, "isTrusted")!;
+    Object.defineProperty(vscode.workspace, "isTrusted", { value: false, configurable: true });
+
+    try {
+      await setEscapeStrategy("custom", modulePath("upper.js"));
+
+      assert.strictEqual(service.getEscapeFunction()("a&b"), "a&amp;b");
+      assert.strictEqual(service.getCacheKey(), "html");
+      assert.strictEqual(require.cache[modulePath("upper.js")], undefined);
+    } finally {
+      Object.defineProperty(vscode.workspace, "isTrusted", trust);
+    }
+  });
+
+  test("is shared with the validators that render templates", async () => {
+    const validator = new MustachePartialValidator();
+    const resolution = { partials: { item: '{"id": "{{id}}"}' }, files: {}, missing: [], cycles: [] };
+    const validate = () => validator.validateSync("[{{>item}}]", resolution).map((error) => error.message);
+
+    assert.deepStrictEqual(validate(), []);
+
+    await setEscapeStrategy("custom", modulePath("quote.js"));
+    assert.match(validate()[0], /^Partial "item" does not render a valid list of array items/);
+
+    // A module that cannot be loaded is reported by the render, not as a broken partial
+    await setEscapeStrategy("custom", modulePath("missing.js"));
+    assert.deepStrictEqual(validate(), []);
+  });
+
+  test("changes the cache key with the strategy and the custom module", async () => {
+    const keys = [service.getCacheKey()];
+
+    await setEscapeStrategy("json-string");
+    keys.push(service.getCacheKey());
+
+    await setEscapeStrategy("custom", modulePath("upper.js"));
+    keys.push(service.getCacheKey());
+
+    await setEscapeStrategy("custom", modulePath("named.js"));
+    keys.push(service.getCacheKey());
+
+    assert.strictEqual(new Set(keys).size, keys.length);
+  });
+});
@@ -0,0 +1,60 @@
+import * as assert from "assert";
+import { SchemaInferrer } from "../../../services/schemaInferrer";
+
+suite("SchemaInferrer", () => {
+  const inferrer = new SchemaInferrer();
+
+  test("types variables by their JSON position and nests dotted names", () => {
+    const schema = inferrer.infer('{"name": "{{name}}", "age": {{age}}, "zip": "{{address.zip}}"}', "Person");
+
+    assert.deepStrictEqual(schema, {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      title: "Person",
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        age: { type: ["number", "boolean"] },
+        address: { type: "object", properties: { zip: { type: "string" } }, required: ["zip"] },
+      },
+      required: ["name", "age", "address"],
+    });
+  });
+
+  test("turns list sections into arrays of objects or scalars", () => {
+    const schema = inferrer.infer(
+      '{"users": [{{#users}}{"name": "{{name}}"}{{#comma}},{{/comma}}{{/users}}], "tags": [{{#tags}}"{{.}}"{{^last}},{{/last}}{{/tags}}]}'
+    );
+
+    assert.deepStrictEqual(schema.properties, {
+      users: {
+        type: "array",
+        items: { type: "object", properties: { name: { type: "string" }, comma: { type: "boolean" } }, required: ["name"] },
+      },
+      tags: { type: "array", items: { type: "string" } },
+    });
+    assert.strictEqual(schema.required, undefined);
+  });
+
+  test("turns sections that render their items with {{.}} into arrays wherever they sit", () => {
+    const schema = inferrer.infer(
+      '{"tags": "{{#tags}}{{.}},{{/tags}}", "total": {{#nums}}{{.}}{{/nums}}, "csv": "{{#ids}}{{^first}},{{/first}}{{.}}{{/ids}}"}'
+    );
+
+    assert.deepStrictEqual(schema.properties, {
+      tags: { type: "array", items: { type: "string" } },
+      nums: { type: "array", items: { type: ["number", "boolean"] } },
+      ids: { type: "array", items: { type: "string" } },
+    });
+  });
+
+  test("turns entered sections into objects and conditional ones into booleans", () => {
+    const schema = inferrer.infer(
+      '{"user": {{#user}}{"name": "{{name}}"}{{/user}}{{^user}}null{{/user}}{{#admin}}, "admin": true{{/admin}}}'
+    );
+
+    assert.deepStrictEqual(schema.properties, {
+      user: { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+      admin: { type: "boolean" },
+    });
+  });
+});
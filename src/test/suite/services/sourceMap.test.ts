@@ -0,0 +1,101 @@
+import * as assert from "assert";
+import { RenderSourceMap } from "../../../services/sourceMap";
+import { TemplateRenderer } from "../../../services/templateRenderer";
+import { TemplateContext, ValidationError } from "../../../core/types";
+
+const renderer = new TemplateRenderer();
+
+function createMap(template: string, context: TemplateContext, partials?: { [name: string]: string }) {
+  const { output, segments } = renderer.render(template, context, partials);
+  return { output, map: new RenderSourceMap(template, output, segments) };
+}
+
+/** An error at a character of single-line output */
+function createOutputError(offset: number, fixes?: ValidationError["fixes"]): ValidationError {
+  return { message: "Unexpected token", line: 1, column: offset, severity: "error", length: 1, fixes };
+}
+
+suite("RenderSourceMap", () => {
+  test("maps literal output back to the same template text", () => {
+    const template = '{"title": "{{title}}", "n": 1,}';
+    const { output, map } = createMap(template, { title: "Hello world" });
+
+    const error = map.mapValidationError(createOutputError(output.lastIndexOf(",")));
+
+    assert.strictEqual(error.column, template.lastIndexOf(","));
+    assert.strictEqual(error.message, "Unexpected token");
+  });
+
+  test("maps output of a value onto its tag and names the context value", () => {
+    const template = '{"age": {{age}}}';
+    const { output, map } = createMap(template, { age: "1 2" });
+
+    const error = map.mapValidationError(createOutputError(output.indexOf("2")));
+
+    assert.strictEqual(error.column, template.indexOf("{{age}}"));
+    assert.strictEqual(error.length, "{{age}}".length);
+    assert.strictEqual(error.message, 'Unexpected token (context value age = "1 2")');
+  });
+
+  test("blames an empty value for the error right after it", () => {
+    const template = '{"age": {{age}}, "b": 1}';
+    const { output, map } = createMap(template, { age: "" });
+
+    const error = map.mapValidationError(createOutputError(output.indexOf(",")));
+
+    assert.strictEqual(error.message, 'Unexpected token (context value age = "")');
+  });
+
+  test("does not blame a value for the literal character after it", () => {
+    const template = '{"age": {{age}}: 1}';
+    const { output, map } = createMap(template, { age: 30 });
+
+    const error = map.mapValidationError(createOutputError(output.indexOf(":", output.indexOf("30"))));
+
+    assert.strictEqual(error.column, template.indexOf(": 1"));
+    assert.strictEqual(error.message, "Unexpected token");
+  });
+
+  test("names the section iteration and the partial that produced the output", () => {
+    const template = '{"items": [{{#items}}{"n": {{n}}}x{{/items}}], "p": {{>part}}}';
+    const { output, map } = createMap(template, { items: [{ n: 1 }, { n: 2 }] }, { part: "1 2" });
+
+    const inSection = map.mapValidationError(createOutputError(output.lastIndexOf("x")));
+    assert.strictEqual(inSection.column, template.indexOf("x"));
+    assert.strictEqual(inSection.message, "Unexpected token (while rendering items[1])");
+
+    const inPartial = map.mapValidationError(createOutputError(output.lastIndexOf("2")));
+    assert.strictEqual(inPartial.column, template.indexOf("{{>part}}"));
+    assert.strictEqual(inPartial.message, 'Unexpected token (rendered by partial "part")');
+  });
+
+  test("moves fix edits of literal output onto the template", () => {
+    const template = '[{{#items}}{"n": {{n}}},{{/items}}]';
+    const { output, map } = createMap(template, { items: [{ n: 12345 }] });
+    const comma = output.lastIndexOf(",");
+
+    const [fix] = map.mapFixes([{ title: "Remove trailing comma", edits: [{ start: comma, end: comma + 1, newText: "" }] }])!;
+
+    assert.deepStrictEqual(fix.edits, [{ start: template.lastIndexOf(","), end: template.lastIndexOf(",") + 1, newText: "" }]);
+  });
+
+  test("drops fixes that would edit a context value or a partial", () => {
+    const template = '{"a": "{{a}}", "p": {{>part}}}';
+    const { output, map } = createMap(template, { a: "value" }, { part: "[1,]" });
+    const inValue = output.indexOf("value");
+    const inPartial = output.indexOf(",]");
+
+    assert.strictEqual(map.mapFixes([{ title: "Edit value", edits: [{ start: inValue, end: inValue + 1, newText: "" }] }]), undefined);
+    assert.strictEqual(
+      map.mapFixes([{ title: "Edit partial", edits: [{ start: inPartial, end: inPartial + 1, newText: "" }] }]),
+      undefined
+    );
+  });
+
+  test("drops the fixes of errors it cannot place", () => {
+    const { map } = createMap("{{empty}}", {});
+    const error = map.mapValidationError(createOutputError(0, [{ title: "Fix", edits: [] }]));
+
+    assert.strictEqual(error.fixes, undefined);
+  });
+});
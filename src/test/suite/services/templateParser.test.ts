@@ -0,0 +1,94 @@
+import * as assert from "assert";
+import { TemplateParser } from "../../../services/templateParser";
+import { MustacheNodeType, MustacheSectionNode, MustacheTagType } from "../../../core/types";
+import { ERROR_CODES } from "../../../core/constants";
+
+suite("TemplateParser", () => {
+  const parser = new TemplateParser();
+
+  test("records tag and name offsets for each tag type", () => {
+    const text = '{"a": {{ name }}, "b": {{{raw}}}, "c": "{{&amp}}", "d": {{>part}}}';
+    const tags = parser.parse(text).tags;
+
+    assert.deepStrictEqual(
+      tags.map((tag) => [tag.type, tag.name, text.substring(tag.start, tag.end), text.substring(tag.nameStart, tag.nameEnd)]),
+      [
+        [MustacheTagType.Variable, "name", "{{ name }}", "name"],
+        [MustacheTagType.Unescaped, "raw", "{{{raw}}}", "raw"],
+        [MustacheTagType.Unescaped, "amp", "{{&amp}}", "amp"],
+        [MustacheTagType.Partial, "part", "{{>part}}", "part"],
+      ]
+    );
+  });
+
+  test("keeps dotted names whole", () => {
+    const text = '{"zip": {{address.zip}}}';
+    const [tag] = parser.parse(text).tags;
+
+    assert.strictEqual(tag.name, "address.zip");
+    assert.strictEqual(text.substring(tag.nameStart, tag.nameEnd), "address.zip");
+  });
+
+  test("nests sections and pairs their tags", () => {
+    const text = "{{#list}}{{^empty}}x{{/empty}}{{/list}}";
+    const [list] = parser.parse(text).children as MustacheSectionNode[];
+    const [empty] = list.children as MustacheSectionNode[];
+
+    assert.strictEqual(list.type, MustacheNodeType.Section);
+    assert.strictEqual(list.closeTag?.start, text.lastIndexOf("{{/list}}"));
+    assert.strictEqual(empty.inverted, true);
+    assert.strictEqual(empty.parent, list);
+  });
+
+  test("marks tags alone on their line as standalone and drops those lines from the text", () => {
+    const text = "[\n  {{#items}}\n  {{.}}\n  {{/items}}\n]";
+    const ast = parser.parse(text);
+
+    assert.deepStrictEqual(
+      ast.tags.map((tag) => [tag.name, tag.standalone]),
+      [
+        ["items", true],
+        [".", false],
+        ["items", true],
+      ]
+    );
+
+    const texts = ast.children.filter((node) => node.type === MustacheNodeType.Text).map((node) => text.substring(node.start, node.end));
+    assert.deepStrictEqual(texts, ["[\n", "]"]);
+  });
+
+  test("switches delimiters and back", () => {
+    const text = "{{=<% %>=}}<%name%> {{literal}} <%={{ }}=%>{{x}}";
+    const ast = parser.parse(text);
+    const variables = ast.tags.filter((tag) => tag.type === MustacheTagType.Variable);
+
+    assert.deepStrictEqual(
+      variables.map((tag) => [tag.name, tag.openDelimiter, text.substring(tag.start, tag.end)]),
+      [
+        ["name", "<%", "<%name%>"],
+        ["x", "{{", "{{x}}"],
+      ]
+    );
+    assert.deepStrictEqual(ast.errors, []);
+  });
+
+  test("reports an unclosed tag with a fix that closes it after the name", () => {
+    const text = '{"a": {{name}';
+    const [error] = parser.parse(text).errors;
+
+    assert.strictEqual(error.code, ERROR_CODES.UNCLOSED_TAG);
+    assert.strictEqual(error.start, text.indexOf("{{"));
+
+    const [edit] = error.fixes![0].edits;
+    const fixed = text.substring(0, edit.start) + edit.newText + text.substring(edit.end);
+    assert.strictEqual(fixed, '{"a": {{name}}}');
+  });
+
+  test("leaves mismatched sections to the section validator", () => {
+    const ast = parser.parse("{{#a}}{{/b}}");
+
+    // Reporting these here too would show the same problem twice
+    assert.deepStrictEqual(ast.errors, []);
+    assert.strictEqual(ast.tags.length, 2);
+  });
+});
@@ -0,0 +1,100 @@
+import * as assert from "assert";
+import * as Mustache from "mustache";
+import { TemplateCompileError, TemplateRenderer } from "../../../services/templateRenderer";
+import { TemplateContext } from "../../../core/types";
+
+interface RenderCase {
+  name: string;
+  template: string;
+  context: TemplateContext;
+  partials?: { [name: string]: string };
+}
+
+/**
+ * Templates rendered by both renderers - the source-mapped output must match mustache.js character for character
+ */
+const cases: RenderCase[] = [
+  {
+    name: "variables with and without escaping",
+    template: '{"a": "{{a}}", "b": "{{{a}}}", "c": "{{&a}}", "n": {{n}}, "f": {{f}}, "z": "{{z}}", "missing": "{{missing}}"}',
+    context: { a: '<b>"x" & y</b>', n: 1.5, f: false, z: null },
+  },
+  {
+    name: "sections over lists, objects and truthy values",
+    template: "[{{#items}}{{id}},{{/items}}] {{#user}}{{name}}{{/user}} {{#flag}}on{{/flag}} {{#zero}}zero{{/zero}}",
+    context: { items: [{ id: 1 }, { id: 2 }], user: { name: "Ada" }, flag: true, zero: 0 },
+  },
+  {
+    name: "inverted sections",
+    template: "{{^items}}none{{/items}} {{^empty}}empty{{/empty}} {{^user}}anonymous{{/user}} {{^missing}}missing{{/missing}}",
+    context: { items: [1], empty: [], user: { name: "Ada" } },
+  },
+  {
+    name: "dotted names and enclosing frames",
+    template: "{{user.name}} {{user.address.city}} {{#users}}{{title}} {{name}} {{user.name}};{{/users}} {{user.nope.deeper}}",
+    context: {
+      title: "Dr",
+      user: { name: "Ada", address: { city: "London" } },
+      users: [{ name: "Grace" }, { name: "Edsger", title: "Prof" }],
+    },
+  },
+  {
+    name: "the implicit iterator",
+    template: '[{{#tags}}"{{.}}"{{^last}},{{/last}}{{/tags}}] {{#nums}}{{.}}{{/nums}} {{#user}}{{.}}{{/user}}',
+    context: { tags: ["a", "<b>"], nums: [1, 2, 3], user: "Ada" },
+  },
+  {
+    name: "properties of primitive items",
+    template: "{{#tags}}{{length}};{{/tags}} {{#tags}}{{.}}:{{name.length}};{{/tags}} {{name.length}}",
+    context: { tags: ["ab", "cde"], length: "outer", name: "Ada" },
+  },
+  {
+    name: "set delimiters",
+    template: "{{a}} {{=<% %>=}}<% a %> <%#items%><%.%><%/items%> {{a}} <%={{ }}=%>{{a}}",
+    context: { a: "x", items: [1, 2] },
+  },
+  {
+    name: "standalone lines",
+    template:
+      '{\n  "items": [\n    {{#items}}\n    {{! one item }}\n    {{id}},\n    {{/items}}\n    0\n  ]\n  {{^items}}\n  , "empty": true\n  {{/items}}\n}\n',
+    context: { items: [{ id: 1 }, { id: 2 }] },
+  },
+  {
+    name: "partial indentation",
+    template: '{\n  "user":\n    {{>user}}\n  ,"inline": {{>user}}\n}',
+    context: { name: "Ada", tags: ["a", "b"] },
+    partials: { user: '{\n  "name": "{{name}}",\n  "tags": [\n    {{#tags}}\n    "{{.}}",\n    {{/tags}}\n    ""\n  ]\n}' },
+  },
+  {
+    name: "nested partials",
+    template: "[\n{{#users}}\n\t{{>user}}\n{{/users}}\n]\n{{name}} {{>tag}}",
+    context: { name: "Ada", users: [{ name: "Grace", tags: ["a"] }] },
+    partials: { user: '{\n  "name": "{{name}}",\n  "tags": [\n    {{#tags}}{{>tag}}{{/tags}}\n  ]\n}\n', tag: '"{{.}}"\n' },
+  },
+];
+
+suite("TemplateRenderer", () => {
+  const renderer = new TemplateRenderer();
+
+  suite("matches mustache.js", () => {
+    for (const { name, template, context, partials } of cases) {
+      test(name, () => {
+        assert.strictEqual(renderer.render(template, context, partials).output, Mustache.render(template, context, partials));
+      });
+    }
+  });
+
+  test("rejects templates mustache.js cannot compile, in the template or its partials", () => {
+    assert.throws(() => renderer.render("{{#users}}{{name}}", {}), TemplateCompileError);
+    assert.throws(() => renderer.render("{{name}}{{/users}}", {}), TemplateCompileError);
+    assert.throws(() => renderer.render("{{>row}}", {}, { row: "{{#a}}" }), TemplateCompileError);
+    assert.throws(() => Mustache.render("{{#users}}{{name}}", {}), /Unclosed section "users"/);
+  });
+
+  test("fails with a plain error when a valid template cannot be rendered", () => {
+    assert.throws(
+      () => renderer.render("{{>self}}", {}, { self: "{{>self}}" }),
+      (error: Error) => !(error instanceof TemplateCompileError) && /nested more than/.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import * as assert from "assert";
+import { VariableResolver } from "../../../services/variableResolver";
+import { ContextFrame } from "../../../core/types";
+
+suite("VariableResolver", () => {
+  const resolver = new VariableResolver();
+  const context = {
+    title: "Report",
+    user: { name: "Ada", address: { zip: "12345" } },
+    items: [{ name: "first" }, { id: 2 }],
+  };
+  const root: ContextFrame = { view: context, path: "" };
+
+  suite("lookup", () => {
+    test("finds a name in the innermost frame first", () => {
+      const frames = [root, { view: context.items[0], path: "items[0]" }];
+
+      assert.deepStrictEqual(resolver.lookup("name", frames), { value: "first", path: "items[0].name", found: true });
+    });
+
+    test("falls back to outer frames", () => {
+      const frames = [root, { view: context.items[1], path: "items[1]" }];
+
+      assert.deepStrictEqual(resolver.lookup("title", frames), { value: "Report", path: "title", found: true });
+    });
+
+    test("follows dotted names through nested objects", () => {
+      assert.deepStrictEqual(resolver.lookup("user.address.zip", [root]), { value: "12345", path: "user.address.zip", found: true });
+    });
+
+    test("does not take a dotted name's last segment from another object", () => {
+      const lookup = resolver.lookup("address.zip", [{ view: { address: "a string", zip: 1 }, path: "" }]);
+
+      assert.strictEqual(lookup.found, false);
+      assert.strictEqual(lookup.value, undefined);
+    });
+
+    test("resolves the implicit iterator to the current frame", () => {
+      const frames = [root, { view: context.items[0], path: "items[0]" }];
+
+      assert.deepStrictEqual(resolver.lookup(".", frames), { value: context.items[0], path: "items[0]", found: true });
+    });
+
+    test("reports a missing name at the innermost frame's path", () => {
+      const frames = [root, { view: context.items[1], path: "items[1]" }];
+
+      assert.deepStrictEqual(resolver.lookup("name", frames), { value: undefined, path: "items[1].name", found: false });
+    });
+  });
+
+  suite("resolveAt", () => {
+    test("resolves names inside a list section against its first item", () => {
+      const template = '[{{#items}}"{{name}}"{{/items}}]';
+      const name = resolver.resolveAt(template, template.indexOf("name"), context);
+
+      assert.strictEqual(name.resolved?.path, "items[].name");
+      assert.strictEqual(name.resolved?.contextPath, "items[0].name");
+      assert.strictEqual(name.resolved?.value, "first");
+      assert.deepStrictEqual(
+        name.candidates.map((candidate) => candidate.path),
+        ["items[].name", "name"]
+      );
+    });
+
+    test("resolves names inside an object section against the object", () => {
+      const template = "{{#user}}{{address.zip}}{{/user}}";
+      const zip = resolver.resolveAt(template, template.indexOf("address"), context);
+
+      assert.strictEqual(zip.resolved?.path, "user.address.zip");
+      assert.strictEqual(zip.resolved?.value, "12345");
+    });
+
+    test("leaves names without a context unresolved", () => {
+      const title = resolver.resolveAt("{{title}}", 2);
+
+      assert.strictEqual(title.resolved, undefined);
+      assert.deepStrictEqual(
+        title.candidates.map((candidate) => candidate.path),
+        ["title"]
+      );
+    });
+  });
+});
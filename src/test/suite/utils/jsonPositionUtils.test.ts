@@ -0,0 +1,47 @@
+import * as assert from "assert";
+import { classifyJSONPositions, maskMustacheTags, SECTION_MARK } from "../../../utils/jsonPositionUtils";
+import { TemplateParser } from "../../../services/templateParser";
+import { JSONPosition } from "../../../core/types";
+
+suite("jsonPositionUtils", () => {
+  const parser = new TemplateParser();
+
+  suite("maskMustacheTags", () => {
+    test("replaces tags by kind and keeps every offset", () => {
+      const text = "{{! note }}[{{#items}}{{id}}{{/items}}, {{>part}}]";
+      const masked = maskMustacheTags(text, parser.parse(text));
+
+      assert.strictEqual(masked.length, text.length);
+      assert.strictEqual(
+        masked,
+        `${" ".repeat(11)}[${SECTION_MARK.padEnd(10)}${"0".padEnd(6)}${SECTION_MARK.padEnd(10)}, ${SECTION_MARK.padEnd(9)}]`
+      );
+    });
+  });
+
+  suite("classifyJSONPositions", () => {
+    test("tells keys, strings and bare values apart", () => {
+      const text = '{"{{key}}": "a {{s}} b", "v": {{v}}, "r": {{{raw}}}, {{{name}}}: 1, "e": "\\"{{q}}"}';
+      const positions = classifyJSONPositions(text, parser.parse(text));
+
+      assert.deepStrictEqual(
+        Array.from(positions).map(([tag, position]) => [tag.name, position]),
+        [
+          ["key", JSONPosition.Key],
+          ["s", JSONPosition.String],
+          ["v", JSONPosition.Value],
+          ["raw", JSONPosition.Value],
+          ["name", JSONPosition.Key],
+          ["q", JSONPosition.String],
+        ]
+      );
+    });
+
+    test("looks through sections and comments", () => {
+      const text = '[{{#items}}"{{name}}"{{! label }}, {{count}}{{/items}}]';
+      const positions = classifyJSONPositions(text, parser.parse(text));
+
+      assert.deepStrictEqual(Array.from(positions.values()), [JSONPosition.String, JSONPosition.Value]);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import { MustachePartialValidator } from "../../../validators/mustache/partialValidator";
+import { TemplateParser } from "../../../services/templateParser";
+import { MustacheTag, MustacheTagType, PartialResolution } from "../../../core/types";
+import { ERROR_CODES } from "../../../core/constants";
+
+function createResolution(partials: { [name: string]: string }, issues?: Partial<PartialResolution>): PartialResolution {
+  return { partials, files: {}, missing: [], cycles: [], ...issues };
+}
+
+function findPartialTag(text: string, name: string): MustacheTag {
+  return new TemplateParser().parse(text).tags.find((tag) => tag.type === MustacheTagType.Partial && tag.name === name)!;
+}
+
+suite("MustachePartialValidator", () => {
+  const validator = new MustachePartialValidator();
+  const getCodes = (text: string, resolution: PartialResolution) => validator.validateSync(text, resolution).map((error) => error.code);
+
+  test("accepts partials that fit where they are included", () => {
+    const text = '{"header": {{>header}}, {{>members}}, "list": [{{>item}}, {{>item}}], "s": "{{>text}}"}';
+    const resolution = createResolution({
+      header: '{"title": "{{title}}"}',
+      members: '"a": 1, "b": {{b}}',
+      item: "{{#items}}{{n}}{{^last}},{{/last}}{{/items}}",
+      text: "not JSON on its own",
+    });
+
+    assert.deepStrictEqual(getCodes(text, resolution), []);
+  });
+
+  test("resolves dotted names in partials to values rather than empty output", () => {
+    const text = '{"address": {{>addr}} }';
+    const resolution = createResolution({ addr: '{"zip": {{address.zip}}, "n": "{{name}}", "deep": {{a.b.c}}, "whole": {{address}}}' });
+
+    assert.deepStrictEqual(getCodes(text, resolution), []);
+  });
+
+  test("reports partials that do not render JSON that fits", () => {
+    const text = '{"value": {{>broken}}, "list": [{{>members}}]}';
+    const resolution = createResolution({ broken: '{"a": }', members: '"a": 1' });
+    const errors = validator.validateSync(text, resolution);
+
+    assert.deepStrictEqual(
+      errors.map((error) => [error.code, error.column, error.severity]),
+      [
+        [ERROR_CODES.PARTIAL_INVALID_JSON, text.indexOf("{{>broken}}"), "warning"],
+        [ERROR_CODES.PARTIAL_INVALID_JSON, text.indexOf("{{>members}}"), "warning"],
+      ]
+    );
+    assert.match(errors[1].message, /list of array items/);
+  });
+
+  test("reports missing partials at the tag that leads to them", () => {
+    const text = '{"a": {{>outer}}}';
+    const tag = findPartialTag(text, "outer");
+    const resolution = createResolution({ outer: "{{>inner}}" }, { missing: [{ tag, chain: ["outer", "inner"] }] });
+    const [error] = validator.validateSync(text, resolution);
+
+    assert.strictEqual(error.code, ERROR_CODES.PARTIAL_NOT_FOUND);
+    assert.strictEqual(error.column, text.indexOf("{{>outer}}"));
+    assert.strictEqual(error.message, 'Partial "inner" not found (included via outer → inner)');
+  });
+
+  test("warns about recursive includes without rendering them", () => {
+    const text = '{"tree": {{>node}}}';
+    const tag = findPartialTag(text, "node");
+    const resolution = createResolution(
+      { node: '{"children": [{{#children}}{{>node}}{{/children}}]}' },
+      { cycles: [{ tag, chain: ["node", "node"] }] }
+    );
+
+    assert.deepStrictEqual(getCodes(text, resolution), [ERROR_CODES.PARTIAL_CYCLE]);
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from "assert";
+import { MustachePositionValidator } from "../../../validators/mustache/positionValidator";
+import { ValidationError } from "../../../core/types";
+import { ERROR_CODES } from "../../../core/constants";
+
+function applyFix(text: string, error: ValidationError): string {
+  const edits = [...error.fixes![0].edits].sort((a, b) => b.start - a.start);
+  return edits.reduce((fixed, edit) => fixed.substring(0, edit.start) + edit.newText + fixed.substring(edit.end), text);
+}
+
+suite("MustachePositionValidator", () => {
+  const validator = new MustachePositionValidator();
+
+  test("warns about unescaped tags inside strings", () => {
+    const text = '{"a": "{{{raw}}}", "b": "x{{&amp}}", "c": {{{json}}}}';
+    const errors = validator.validateSync(text);
+
+    assert.deepStrictEqual(
+      errors.map((error) => [error.code, error.column]),
+      [
+        [ERROR_CODES.UNESCAPED_IN_STRING, text.indexOf("{{{raw}}}")],
+        [ERROR_CODES.UNESCAPED_IN_STRING, text.indexOf("{{&amp}}")],
+      ]
+    );
+  });
+
+  test("warns about a bare value bound to a string and offers to quote it", () => {
+    const text = '{"age": {{age}}}';
+    const [error] = validator.validateSync(text, { age: "30" });
+
+    assert.strictEqual(error.code, ERROR_CODES.VALUE_TYPE_MISMATCH);
+    assert.strictEqual(error.message, '"age" is a bare JSON value but age is a string ("30") - wrap the tag in quotes');
+    assert.strictEqual(applyFix(text, error), '{"age": "{{age}}"}');
+  });
+
+  test("accepts unescaped tags that splice raw JSON into a value", () => {
+    const text = '{"data": {{{data}}}, "copy": {{&data}}}';
+
+    assert.deepStrictEqual(validator.validateSync(text, { data: '{"a": 1}' }), []);
+  });
+
+  test("warns about quoted numbers and offers to unquote tags that fill the string", () => {
+    const text = '{"age": "{{age}}", "label": "Age {{age}}"}';
+    const errors = validator.validateSync(text, { age: 30 });
+
+    assert.deepStrictEqual(
+      errors.map((error) => [error.code, error.column]),
+      [
+        [ERROR_CODES.VALUE_TYPE_MISMATCH, text.indexOf("{{age}}")],
+        [ERROR_CODES.VALUE_TYPE_MISMATCH, text.lastIndexOf("{{age}}")],
+      ]
+    );
+    assert.strictEqual(applyFix(text, errors[0]), '{"age": {{age}}, "label": "Age {{age}}"}');
+    assert.strictEqual(errors[1].fixes, undefined);
+  });
+
+  test("only checks value types against a context", () => {
+    assert.deepStrictEqual(validator.validateSync('{"age": {{age}}}'), []);
+    assert.deepStrictEqual(validator.validateSync('{"age": {{age}}, "name": "{{name}}"}', { age: 30, name: "Ada" }), []);
+  });
+});
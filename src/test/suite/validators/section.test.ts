@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import { MustacheSectionValidator } from "../../../validators/mustache/sectionValidator";
+import { ValidationError } from "../../../core/types";
+import { ERROR_CODES } from "../../../core/constants";
+
+function applyFix(text: string, error: ValidationError): string {
+  const edits = [...error.fixes![0].edits].sort((a, b) => b.start - a.start);
+  return edits.reduce((fixed, edit) => fixed.substring(0, edit.start) + edit.newText + fixed.substring(edit.end), text);
+}
+
+suite("MustacheSectionValidator", () => {
+  const validator = new MustacheSectionValidator();
+  const getSeparatorErrors = (text: string) => validator.validateSync(text).filter((error) => error.code === ERROR_CODES.LOOP_SEPARATOR);
+
+  suite("loop separators", () => {
+    test("accepts the usual separator idioms", () => {
+      assert.deepStrictEqual(getSeparatorErrors('[{{#items}}{"id": {{id}}}{{#comma}},{{/comma}}{{/items}}]'), []);
+      assert.deepStrictEqual(getSeparatorErrors("[0{{#items}}, {{id}}{{/items}}]"), []);
+      assert.deepStrictEqual(getSeparatorErrors('{"a": 1{{#b}}, "b": 2{{/b}}}'), []);
+    });
+
+    test("reports a comma that trails the last item", () => {
+      const text = '[{{#items}}{"id": {{id}}},{{/items}}]';
+      const [error] = getSeparatorErrors(text);
+
+      assert.strictEqual(error.message, "Section {{#items}} leaves a trailing comma when it renders once or repeats");
+      assert.strictEqual(error.column, text.indexOf(",{{/items}}"));
+      assert.strictEqual(applyFix(text, error), '[{{#items}}{"id": {{id}}}{{#comma}},{{/comma}}{{/items}}]');
+    });
+
+    test("reports commas doubled between items", () => {
+      const errors = getSeparatorErrors("[0{{#items}}, {{id}},{{/items}}]");
+
+      assert.deepStrictEqual(
+        errors.map((error) => error.message),
+        [
+          "Section {{#items}} leaves a trailing comma when it renders once or repeats",
+          "Section {{#items}} renders a doubled comma when it repeats",
+        ]
+      );
+    });
+
+    test("reports items without a separating comma", () => {
+      const text = '[{{#items}}{"id": {{id}}}{{/items}}]';
+      const [error] = getSeparatorErrors(text);
+
+      assert.strictEqual(error.message, "Section {{#items}} renders items without a separating comma when it repeats");
+      assert.strictEqual(error.column, text.indexOf("{{#items}}"));
+      assert.strictEqual(applyFix(text, error), '[{{#items}}{"id": {{id}}}{{#comma}},{{/comma}}{{/items}}]');
+    });
+
+    test("reports the comma left before a skipped section", () => {
+      const errors = getSeparatorErrors("[1, {{#items}}{{id}}{{/items}}]");
+
+      assert.deepStrictEqual(
+        errors.map((error) => error.message),
+        [
+          "Section {{#items}} leaves a trailing comma when it is skipped",
+          "Section {{#items}} renders items without a separating comma when it repeats",
+        ]
+      );
+    });
+
+    test("suggests the separator idiom the template already uses", () => {
+      const text = '{"a": [{{#a}}{{id}}{{^last}},{{/last}}{{/a}}], "b": [{{#b}}{{id}},{{/b}}]}';
+      const [error] = getSeparatorErrors(text);
+
+      assert.strictEqual(
+        applyFix(text, error),
+        '{"a": [{{#a}}{{id}}{{^last}},{{/last}}{{/a}}], "b": [{{#b}}{{id}}{{^last}},{{/last}}{{/b}}]}'
+      );
+    });
+  });
+});
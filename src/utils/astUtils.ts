@@ -0,0 +1,114 @@
+import { MustacheNode, MustacheNodeType, MustacheRootNode, MustacheSectionNode, MustacheTag } from "../core/types";
+
+/**
+ * Visit every node depth-first in document order. Returning false from the visitor skips a section's children.
+ */
+export function walkNodes(nodes: MustacheNode[], visit: (node: MustacheNode) => boolean | void): void {
+  for (const node of nodes) {
+    const descend = visit(node);
+    if (node.type === MustacheNodeType.Section && descend !== false) {
+      walkNodes(node.children, visit);
+    }
+  }
+}
+
+/**
+ * Collect every section node in document order
+ */
+export function collectSections(root: MustacheRootNode): MustacheSectionNode[] {
+  const sections: MustacheSectionNode[] = [];
+  walkNodes(root.children, (node) => {
+    if (node.type === MustacheNodeType.Section) {
+      sections.push(node);
+    }
+  });
+  return sections;
+}
+
+/**
+ * Find the deepest node containing an offset (section tags count as part of their section)
+ */
+export function findNodeAt(root: MustacheRootNode, offset: number): MustacheNode | undefined {
+  let children = root.children;
+  let found: MustacheNode | undefined;
+
+  while (children) {
+    const child = children.find((node) => node.start <= offset && offset < node.end);
+    if (!child) {
+      break;
+    }
+
+    found = child;
+
+    if (child.type !== MustacheNodeType.Section || offset < child.openTag.end || (child.closeTag && offset >= child.closeTag.start)) {
+      break;
+    }
+    children = child.children;
+  }
+
+  return found;
+}
+
+/**
+ * Find the tag containing an offset (inclusive of the tag end, so a cursor right after "}}" still hits the tag)
+ */
+export function findTagAt(root: MustacheRootNode, offset: number): MustacheTag | undefined {
+  return root.tags.find((tag) => tag.start <= offset && offset <= tag.end);
+}
+
+/**
+ * Get the open sections enclosing an offset, outermost first
+ */
+export function getEnclosingSections(root: MustacheRootNode, offset: number): MustacheSectionNode[] {
+  const sections: MustacheSectionNode[] = [];
+  let children = root.children;
+
+  while (children) {
+    const section = children.find(
+      (node): node is MustacheSectionNode =>
+        node.type === MustacheNodeType.Section &&
+        node.openTag.end <= offset &&
+        (node.closeTag ? offset <= node.closeTag.start : offset <= node.end)
+    );
+    if (!section) {
+      break;
+    }
+    sections.push(section);
+    children = section.children;
+  }
+
+  return sections;
+}
+
+/**
+ * Get the sections a node is nested in, outermost first
+ */
+export function getAncestorSections(node: MustacheNode): MustacheSectionNode[] {
+  const sections: MustacheSectionNode[] = [];
+  let parent = node.parent;
+
+  while (parent && parent.type === MustacheNodeType.Section) {
+    sections.unshift(parent);
+    parent = parent.parent;
+  }
+
+  return sections;
+}
+
+/**
+ * Get the offsets of the content between a section's open and close tags
+ */
+export function getSectionContentRange(section: MustacheSectionNode): { start: number; end: number } {
+  return {
+    start: section.openTag.end,
+    end: section.closeTag ? section.closeTag.start : section.end,
+  };
+}
+
+/**
+ * Check whether a section only emits a separator, e.g. {{#comma}},{{/comma}}
+ */
+export function isSeparatorSection(section: MustacheSectionNode): boolean {
+  const text = section.children.map((child) => (child.type === MustacheNodeType.Text ? child.value : "\0")).join("");
+  return text.trim() === ",";
+}
@@ -0,0 +1,17 @@
+import * as vscode from "vscode";
+
+/**
+ * Read a workspace file, preferring the unsaved text of an open editor
+ */
+export async function readWorkspaceFile(uri: vscode.Uri): Promise<string | undefined> {
+  const open = vscode.workspace.textDocuments.find((document) => document.uri.toString() === uri.toString());
+  if (open) {
+    return open.getText();
+  }
+
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+  } catch {
+    return undefined;
+  }
+}
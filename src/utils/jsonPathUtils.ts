@@ -0,0 +1,210 @@
+/**
+ * Where a path segment sits in a JSON document: the range to point at, and where its value starts
+ */
+interface JSONPathMatch {
+  range: { start: number; end: number };
+  valueStart: number;
+}
+
+// Called with each member key's context path and the range of the quoted key
+type JSONKeyVisitor = (path: string, range: { start: number; end: number }) => void;
+
+/**
+ * Split a context path such as "users[0].address.city" into keys and array indices
+ */
+export function parseJSONPath(path: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  const pattern = /([^.[\]]+)|\[(\d+)\]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(path))) {
+    segments.push(match[2] !== undefined ? Number(match[2]) : match[1]);
+  }
+
+  return segments;
+}
+
+/**
+ * Find where a context path is defined in a JSON document: the member's key, or the array item itself.
+ * The root path "" is the whole document.
+ */
+export function findJSONPathRange(text: string, path: string): { start: number; end: number } | undefined {
+  const start = skipWhitespace(text, 0);
+  let match: JSONPathMatch | undefined = { range: { start, end: skipValue(text, start) }, valueStart: start };
+
+  for (const segment of parseJSONPath(path)) {
+    match =
+      typeof segment === "number" ? findArrayItem(text, match.valueStart, segment) : findObjectMember(text, match.valueStart, segment);
+    if (!match) {
+      return undefined;
+    }
+  }
+
+  return match.range;
+}
+
+/**
+ * Collapse array indices so every item shares one path, e.g. "users[1].name" -> "users[].name"
+ */
+export function collapseArrayIndices(path: string): string {
+  return path.replace(/\[\d+\]/g, "[]");
+}
+
+/**
+ * Visit every object member key in a JSON document with its context path, e.g. "users[0].name"
+ */
+export function walkJSONKeys(text: string, visit: JSONKeyVisitor): void {
+  walkValue(text, skipWhitespace(text, 0), "", visit);
+}
+
+/**
+ * Walk the value starting at an offset, returning the offset just past it
+ */
+function walkValue(text: string, start: number, path: string, visit: JSONKeyVisitor): number {
+  if (text[start] !== "{" && text[start] !== "[") {
+    return skipValue(text, start);
+  }
+
+  const isObject = text[start] === "{";
+  let i = skipWhitespace(text, start + 1);
+
+  for (let index = 0; i < text.length && text[i] !== (isObject ? "}" : "]"); index++) {
+    let itemPath = `${path}[${index}]`;
+
+    if (isObject) {
+      if (text[i] !== '"') {
+        break;
+      }
+      const keyEnd = skipString(text, i);
+      const key = JSON.parse(text.substring(i, keyEnd));
+      itemPath = path ? `${path}.${key}` : key;
+      visit(itemPath, { start: i, end: keyEnd });
+
+      i = skipWhitespace(text, keyEnd);
+      if (text[i] !== ":") {
+        break;
+      }
+      i = skipWhitespace(text, i + 1);
+    }
+
+    i = skipWhitespace(text, walkValue(text, i, itemPath, visit));
+    if (text[i] !== ",") {
+      break;
+    }
+    i = skipWhitespace(text, i + 1);
+  }
+
+  return text[i] === (isObject ? "}" : "]") ? i + 1 : i;
+}
+
+/**
+ * Find a member of the object starting at an offset; the last duplicate wins, as with JSON.parse
+ */
+function findObjectMember(text: string, start: number, key: string): JSONPathMatch | undefined {
+  if (text[start] !== "{") {
+    return undefined;
+  }
+
+  let result: JSONPathMatch | undefined;
+  let i = skipWhitespace(text, start + 1);
+
+  while (text[i] === '"') {
+    const keyStart = i;
+    const keyEnd = skipString(text, keyStart);
+    i = skipWhitespace(text, keyEnd);
+    if (text[i] !== ":") {
+      break;
+    }
+
+    const valueStart = skipWhitespace(text, i + 1);
+    if (JSON.parse(text.substring(keyStart, keyEnd)) === key) {
+      result = { range: { start: keyStart, end: keyEnd }, valueStart };
+    }
+
+    i = skipWhitespace(text, skipValue(text, valueStart));
+    if (text[i] !== ",") {
+      break;
+    }
+    i = skipWhitespace(text, i + 1);
+  }
+
+  return result;
+}
+
+/**
+ * Find an item of the array starting at an offset
+ */
+function findArrayItem(text: string, start: number, index: number): JSONPathMatch | undefined {
+  if (text[start] !== "[") {
+    return undefined;
+  }
+
+  let i = skipWhitespace(text, start + 1);
+
+  for (let current = 0; i < text.length && text[i] !== "]"; current++) {
+    const end = skipValue(text, i);
+    if (current === index) {
+      return { range: { start: i, end }, valueStart: i };
+    }
+
+    i = skipWhitespace(text, end);
+    if (text[i] !== ",") {
+      break;
+    }
+    i = skipWhitespace(text, i + 1);
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the offset just past the JSON value starting at an offset
+ */
+function skipValue(text: string, start: number): number {
+  if (text[start] === '"') {
+    return skipString(text, start);
+  }
+
+  if (text[start] === "{" || text[start] === "[") {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      if (text[i] === '"') {
+        i = skipString(text, i) - 1;
+      } else if (text[i] === "{" || text[i] === "[") {
+        depth++;
+      } else if ((text[i] === "}" || text[i] === "]") && --depth === 0) {
+        return i + 1;
+      }
+    }
+    return text.length;
+  }
+
+  // Numbers, true, false and null run until the next delimiter
+  let i = start;
+  while (i < text.length && !/[\s,\]}]/.test(text[i])) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Get the offset just past the string starting at an offset
+ */
+function skipString(text: string, start: number): number {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === '"') {
+      return i + 1;
+    }
+  }
+  return text.length;
+}
+
+function skipWhitespace(text: string, start: number): number {
+  let i = start;
+  while (i < text.length && /\s/.test(text[i])) {
+    i++;
+  }
+  return i;
+}
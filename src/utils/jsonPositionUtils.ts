@@ -0,0 +1,125 @@
+import { JSONPosition, MustacheRootNode, MustacheTag, MustacheTagType } from "../core/types";
+
+// Stands in for section and partial tags when scanning a template as JSON
+export const SECTION_MARK = "\u0001";
+
+/**
+ * Replace tags so a template can be scanned as JSON: variables become values, sections and partials become markers,
+ * comments and delimiter changes become whitespace. Offsets are preserved.
+ */
+export function maskMustacheTags(text: string, ast: MustacheRootNode): string {
+  let masked = "";
+  let last = 0;
+
+  for (const tag of ast.tags) {
+    const length = tag.end - tag.start;
+    let replacement: string;
+
+    switch (tag.type) {
+      case MustacheTagType.Variable:
+      case MustacheTagType.Unescaped:
+        replacement = "0".padEnd(length, " ");
+        break;
+      case MustacheTagType.Comment:
+      case MustacheTagType.Delimiter:
+        replacement = " ".repeat(length);
+        break;
+      default:
+        replacement = SECTION_MARK.padEnd(length, " ");
+    }
+
+    masked += text.substring(last, tag.start) + replacement;
+    last = tag.end;
+  }
+
+  return masked + text.substring(last);
+}
+
+/**
+ * Work out where each variable tag sits in the JSON the template produces
+ */
+export function classifyJSONPositions(text: string, ast: MustacheRootNode): Map<MustacheTag, JSONPosition> {
+  const masked = maskMustacheTags(text, ast);
+  const positions = new Map<MustacheTag, JSONPosition>();
+  const tags = ast.tags.filter((tag) => tag.type === MustacheTagType.Variable || tag.type === MustacheTagType.Unescaped);
+  let inString = false;
+  let next = 0;
+
+  for (let i = 0; i <= masked.length && next < tags.length; i++) {
+    while (next < tags.length && tags[next].start <= i) {
+      const tag = tags[next++];
+      const end = inString ? findStringEnd(masked, tag.end) : tag.end;
+      const isKey = nextSignificantChar(masked, end) === ":";
+      positions.set(tag, isKey ? JSONPosition.Key : inString ? JSONPosition.String : JSONPosition.Value);
+    }
+
+    const char = masked[i];
+    if (inString && char === "\\") {
+      i++;
+    } else if (char === '"') {
+      inString = !inString;
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Find the innermost JSON array or object at each offset (undefined at the top level or inside a string). Offsets must be sorted.
+ */
+export function findJSONContainers(masked: string, offsets: number[]): Array<"[" | "{" | undefined> {
+  const containers: Array<"[" | "{" | undefined> = [];
+  const stack: Array<"[" | "{"> = [];
+  let inString = false;
+  let next = 0;
+
+  for (let i = 0; i <= masked.length && next < offsets.length; i++) {
+    while (next < offsets.length && offsets[next] <= i) {
+      containers.push(inString ? undefined : stack[stack.length - 1]);
+      next++;
+    }
+
+    const char = masked[i];
+    if (inString) {
+      if (char === "\\") {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "[" || char === "{") {
+      stack.push(char);
+    } else if (char === "]" || char === "}") {
+      stack.pop();
+    }
+  }
+
+  return containers;
+}
+
+/**
+ * Find the offset just after the closing quote of the string containing an offset
+ */
+function findStringEnd(masked: string, offset: number): number {
+  for (let i = offset; i < masked.length; i++) {
+    if (masked[i] === "\\") {
+      i++;
+    } else if (masked[i] === '"') {
+      return i + 1;
+    }
+  }
+  return masked.length;
+}
+
+/**
+ * Get the first non-whitespace character at or after an offset
+ */
+function nextSignificantChar(masked: string, offset: number): string | undefined {
+  for (let i = offset; i < masked.length; i++) {
+    if (!/\s/.test(masked[i])) {
+      return masked[i];
+    }
+  }
+  return undefined;
+}
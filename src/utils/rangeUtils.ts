@@ -0,0 +1,71 @@
+/**
+ * Convert a 1-based line and 0-based column into a text offset
+ */
+export function offsetAt(text: string, line: number, column: number): number {
+  let offset = 0;
+  let currentLine = 1;
+
+  while (currentLine < line) {
+    const newline = text.indexOf("\n", offset);
+    if (newline === -1) {
+      return text.length;
+    }
+    offset = newline + 1;
+    currentLine++;
+  }
+
+  const lineEnd = text.indexOf("\n", offset);
+  const maxColumn = (lineEnd === -1 ? text.length : lineEnd) - offset;
+
+  return offset + Math.max(0, Math.min(column, maxColumn));
+}
+
+/**
+ * Convert a text offset into a 1-based line and 0-based column
+ */
+export function lineColumnAt(text: string, offset: number): { line: number; column: number } {
+  const clamped = Math.max(0, Math.min(offset, text.length));
+  const before = text.substring(0, clamped);
+  const lastNewline = before.lastIndexOf("\n");
+
+  return {
+    line: before.split("\n").length,
+    column: clamped - (lastNewline + 1),
+  };
+}
+
+/**
+ * Get the offset of the end of the line containing the given offset
+ */
+export function lineEndAt(text: string, offset: number): number {
+  const newline = text.indexOf("\n", offset);
+  return newline === -1 ? text.length : newline;
+}
+
+/**
+ * Build a fast offset to line/column converter for repeated lookups in the same text
+ */
+export function createLineColumnLookup(text: string): (offset: number) => { line: number; column: number } {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return { line: low + 1, column: offset - lineStarts[low] };
+  };
+}
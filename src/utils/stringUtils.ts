@@ -0,0 +1,35 @@
+/**
+ * Describe the JSON type of a context value, e.g. "string" or "array (3 items)"
+ */
+export function describeValueType(value: any): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return `array (${value.length} ${value.length === 1 ? "item" : "items"})`;
+  }
+  return typeof value;
+}
+
+/**
+ * Format a context value as JSON for display, shortened to a maximum length
+ */
+export function formatValuePreview(value: any, maxLength: number, indent?: number): string {
+  const text = value === undefined ? "undefined" : (JSON.stringify(value, null, indent) ?? String(value));
+  return text.length > maxLength ? `${text.substring(0, maxLength)}…` : text;
+}
+
+/**
+ * Check whether the characters of a query appear in order in a name, ignoring case - "usnm" matches "userName"
+ */
+export function matchesFuzzy(query: string, name: string): boolean {
+  const lowerName = name.toLowerCase();
+  let index = 0;
+  for (const char of query.toLowerCase()) {
+    index = lowerName.indexOf(char, index) + 1;
+    if (index === 0) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -144,6 +144,7 @@ export class JSONValidator extends BaseValidator {
   private validateCommonJSONIssues(text: string): ValidationError[] {
     const errors: ValidationError[] = [];
     const lines = text.split("\n");
+    let lineOffset = 0;
 
     for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
       const line = lines[lineIndex];
@@ -153,16 +154,19 @@ export class JSONValidator extends BaseValidator {
       let match;
       const trailingCommaPattern = new RegExp(JSON_PATTERNS.TRAILING_COMMA.source, "g");
       while ((match = trailingCommaPattern.exec(line)) !== null) {
-        errors.push(
-          this.createValidationError(
-            "Trailing comma in JSON",
-            lineNumber,
-            match.index,
-            "error",
-            match[0].length,
-            ERROR_CODES.TRAILING_COMMA
-          )
+        const comma = lineOffset + match.index;
+        const error = this.createValidationError(
+          "Trailing comma in JSON",
+          lineNumber,
+          match.index,
+          "error",
+          match[0].length,
+          ERROR_CODES.TRAILING_COMMA
         );
+        errors.push({
+          ...error,
+          fixes: [{ title: "Remove the trailing comma", edits: [{ start: comma, end: comma + 1, newText: "" }], isPreferred: true }],
+        });
       }
 
       // Check for unquoted keys
@@ -173,16 +177,29 @@ export class JSONValidator extends BaseValidator {
         const insideString = (beforeMatch.split('"').length - 1) % 2 === 1;
 
         if (!insideString) {
-          errors.push(
-            this.createValidationError(
-              "JSON keys must be quoted",
-              lineNumber,
-              match.index,
-              "error",
-              match[1].length,
-              ERROR_CODES.UNQUOTED_KEY
-            )
+          const keyStart = lineOffset + match.index;
+          const keyEnd = keyStart + match[1].length;
+          const error = this.createValidationError(
+            "JSON keys must be quoted",
+            lineNumber,
+            match.index,
+            "error",
+            match[1].length,
+            ERROR_CODES.UNQUOTED_KEY
           );
+          errors.push({
+            ...error,
+            fixes: [
+              {
+                title: `Quote the key "${match[1]}"`,
+                edits: [
+                  { start: keyStart, end: keyStart, newText: '"' },
+                  { start: keyEnd, end: keyEnd, newText: '"' },
+                ],
+                isPreferred: true,
+              },
+            ],
+          });
         }
       }
 
@@ -200,6 +217,8 @@ export class JSONValidator extends BaseValidator {
           )
         );
       }
+
+      lineOffset += line.length + 1;
     }
 
     return errors;
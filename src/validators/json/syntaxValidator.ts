@@ -320,6 +320,11 @@ export class JSONSyntaxValidator extends BaseValidator {
     const positionMatch = message.match(/position (\d+)/i);
     if (positionMatch) {
       const position = parseInt(positionMatch[1], 10);
+      const commonError = this.detectCommonMistake(text, position);
+      if (commonError) {
+        return commonError;
+      }
+
       const location = this.getLineColumnFromPosition(text, position);
       line = location.line;
       column = location.column;
@@ -334,6 +339,19 @@ export class JSONSyntaxValidator extends BaseValidator {
       if (columnMatch) {
         column = parseInt(columnMatch[1], 10);
       }
+
+      // Newer engines report "Unexpected token" errors without any position
+      if (!lineMatch && !columnMatch) {
+        const position = this.findErrorPosition(text);
+        const commonError = this.detectCommonMistake(text, position);
+        if (commonError) {
+          return commonError;
+        }
+
+        const location = this.getLineColumnFromPosition(text, position);
+        line = location.line;
+        column = location.column;
+      }
     }
 
     // Clean up the error message
@@ -342,6 +360,102 @@ export class JSONSyntaxValidator extends BaseValidator {
     return this.createValidationError(cleanMessage, line, column, "error", 1, ERROR_CODES.JSON_SYNTAX_ERROR);
   }
 
+  /**
+   * Recognize a trailing comma or an unquoted key at the position parsing failed, with a fix for each
+   */
+  private detectCommonMistake(text: string, position: number): ValidationError | null {
+    if (text[position] === "}" || text[position] === "]") {
+      let comma = position - 1;
+      while (comma >= 0 && /\s/.test(text[comma])) {
+        comma--;
+      }
+
+      if (text[comma] === ",") {
+        const location = this.getLineColumnFromPosition(text, comma);
+        const error = this.createValidationError(
+          "Trailing comma in JSON",
+          location.line,
+          location.column,
+          "error",
+          1,
+          ERROR_CODES.TRAILING_COMMA
+        );
+        return {
+          ...error,
+          fixes: [{ title: "Remove the trailing comma", edits: [{ start: comma, end: comma + 1, newText: "" }], isPreferred: true }],
+        };
+      }
+    }
+
+    const keyPattern = /[a-zA-Z_$][\w$]*(?=\s*:)/y;
+    keyPattern.lastIndex = position;
+    const key = keyPattern.exec(text);
+
+    if (key) {
+      const location = this.getLineColumnFromPosition(text, position);
+      const error = this.createValidationError(
+        "JSON keys must be quoted",
+        location.line,
+        location.column,
+        "error",
+        key[0].length,
+        ERROR_CODES.UNQUOTED_KEY
+      );
+      return {
+        ...error,
+        fixes: [
+          {
+            title: `Quote the key "${key[0]}"`,
+            edits: [
+              { start: position, end: position, newText: '"' },
+              { start: position + key[0].length, end: position + key[0].length, newText: '"' },
+            ],
+            isPreferred: true,
+          },
+        ],
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Find where JSON parsing fails by bisecting on the longest prefix that is still a valid start of a document
+   */
+  private findErrorPosition(text: string): number {
+    let low = 0;
+    let high = text.length;
+
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.isValidPrefix(text.substring(0, mid))) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return Math.min(low, Math.max(text.length - 1, 0));
+  }
+
+  /**
+   * Check whether a prefix only fails because the input ends early
+   */
+  private isValidPrefix(prefix: string): boolean {
+    try {
+      JSON.parse(prefix);
+      return true;
+    } catch (error: any) {
+      const message = String(error?.message || "");
+      if (/end of (JSON )?(data|input)/i.test(message)) {
+        return true;
+      }
+
+      const positionMatch = message.match(/position (\d+)/i);
+      return !!positionMatch && parseInt(positionMatch[1], 10) >= prefix.length;
+    }
+  }
+
   /**
    * Clean error message for better user experience
    */
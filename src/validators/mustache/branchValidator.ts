@@ -0,0 +1,72 @@
+import * as vscode from "vscode";
+import { BaseValidator } from "../base/baseValidator";
+import { BranchAnalyzer } from "../../services/branchAnalyzer";
+import { ValidationResult, ValidationError, BranchAssignment, BranchCounterexample, BranchState } from "../../core/types";
+import { DIAGNOSTIC_SOURCES, ERROR_CODES } from "../../core/constants";
+
+const MAX_CONTEXT_PREVIEW_LENGTH = 200;
+
+export class MustacheBranchValidator extends BaseValidator {
+  private analyzer: BranchAnalyzer;
+
+  constructor() {
+    super("MustacheBranchValidator", DIAGNOSTIC_SOURCES.TEMPLATE_ENGINE);
+    this.analyzer = new BranchAnalyzer();
+  }
+
+  /**
+   * Main validation method
+   */
+  public async validate(text: string, document?: vscode.TextDocument, partials?: { [name: string]: string }): Promise<ValidationResult> {
+    const startTime = Date.now();
+    const errors = this.validateSync(text, partials);
+    const processingTime = Date.now() - startTime;
+
+    return this.createValidationResult(errors, processingTime);
+  }
+
+  /**
+   * Synchronous validation
+   */
+  public validateSync(text: string, partials?: { [name: string]: string }): ValidationError[] {
+    const counterexamples = this.analyzer.analyze(text, partials);
+    return this.sortErrors(counterexamples.map((counterexample) => this.createCounterexampleError(counterexample)));
+  }
+
+  /**
+   * Turn a counterexample into a warning at the template position that breaks
+   */
+  private createCounterexampleError(counterexample: BranchCounterexample): ValidationError {
+    const { error, assignments, context } = counterexample;
+    const branches =
+      assignments.length > 0 ? assignments.map((assignment) => this.describeAssignment(assignment)).join(", ") : "no sections render";
+
+    let contextPreview = JSON.stringify(context);
+    if (contextPreview.length > MAX_CONTEXT_PREVIEW_LENGTH) {
+      contextPreview = `${contextPreview.substring(0, MAX_CONTEXT_PREVIEW_LENGTH)}…`;
+    }
+
+    return this.createValidationError(
+      `Invalid JSON when ${branches}: ${error.message}. Counterexample context: ${contextPreview}`,
+      error.line,
+      error.column,
+      "warning",
+      error.length,
+      ERROR_CODES.BRANCH_INVALID_JSON
+    );
+  }
+
+  /**
+   * Describe one section's state, e.g. "users has 2 items"
+   */
+  private describeAssignment(assignment: BranchAssignment): string {
+    switch (assignment.state) {
+      case BranchState.Absent:
+        return `${assignment.path} is empty or false`;
+      case BranchState.Once:
+        return `${assignment.path} has 1 item`;
+      case BranchState.Repeated:
+        return `${assignment.path} has 2 items`;
+    }
+  }
+}
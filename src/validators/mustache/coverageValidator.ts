@@ -0,0 +1,60 @@
+import * as vscode from "vscode";
+import { BaseValidator } from "../base/baseValidator";
+import { ContextCoverageAnalyzer } from "../../services/coverageAnalyzer";
+import { ValidationResult, ValidationError, TemplateContext, UnresolvedReference } from "../../core/types";
+import { DIAGNOSTIC_SOURCES, ERROR_CODES } from "../../core/constants";
+import { createLineColumnLookup } from "../../utils/rangeUtils";
+
+type LineColumnLookup = ReturnType<typeof createLineColumnLookup>;
+
+export class MustacheCoverageValidator extends BaseValidator {
+  private analyzer: ContextCoverageAnalyzer;
+
+  constructor() {
+    super("MustacheCoverageValidator", DIAGNOSTIC_SOURCES.MUSTACHE);
+    this.analyzer = new ContextCoverageAnalyzer();
+  }
+
+  /**
+   * Main validation method
+   */
+  public async validate(text: string, document?: vscode.TextDocument, context?: TemplateContext): Promise<ValidationResult> {
+    const startTime = Date.now();
+    const errors = this.validateSync(text, context);
+    const processingTime = Date.now() - startTime;
+
+    return this.createValidationResult(errors, processingTime);
+  }
+
+  /**
+   * Synchronous validation - nothing to check without a context
+   */
+  public validateSync(text: string, context?: TemplateContext): ValidationError[] {
+    if (!context) {
+      return [];
+    }
+
+    const locate = createLineColumnLookup(text);
+    const coverage = this.analyzer.analyze(text, context);
+
+    return this.sortErrors(coverage.unresolved.map((reference) => this.createUnresolvedError(reference, locate)));
+  }
+
+  /**
+   * Report a tag the context cannot resolve
+   */
+  private createUnresolvedError(reference: UnresolvedReference, locate: LineColumnLookup): ValidationError {
+    const { tag, isSection, scopePath } = reference;
+    const location = locate(tag.start);
+    const where = scopePath ? `not found in ${scopePath} or any enclosing context` : "the context does not define it";
+
+    return this.createValidationError(
+      `Unknown ${isSection ? "section" : "variable"} "${tag.name}" - ${where}`,
+      location.line,
+      location.column,
+      "warning",
+      tag.end - tag.start,
+      ERROR_CODES.UNKNOWN_VARIABLE
+    );
+  }
+}
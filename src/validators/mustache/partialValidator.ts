@@ -0,0 +1,250 @@
+import * as vscode from "vscode";
+import { BaseValidator } from "../base/baseValidator";
+import { TemplateParser } from "../../services/templateParser";
+import { TemplateRenderer } from "../../services/templateRenderer";
+import { EscapeService } from "../../services/escapeService";
+import {
+  ValidationResult,
+  ValidationError,
+  EscapeFunction,
+  MustacheTag,
+  MustacheTagType,
+  PartialResolution,
+  TemplateContext,
+} from "../../core/types";
+import { DIAGNOSTIC_SOURCES, ERROR_CODES } from "../../core/constants";
+import { createLineColumnLookup } from "../../utils/rangeUtils";
+import { collectSections, isSeparatorSection } from "../../utils/astUtils";
+import { findJSONContainers, maskMustacheTags } from "../../utils/jsonPositionUtils";
+
+type LineColumnLookup = ReturnType<typeof createLineColumnLookup>;
+
+// Placeholder for every context value when rendering a partial on its own
+const SAMPLE_VALUE = 1;
+
+/**
+ * What a partial has to render where it is included
+ */
+type FragmentKind = "value" | "members" | "items";
+
+const FRAGMENT_DESCRIPTIONS: { [kind in FragmentKind]: string } = {
+  value: "JSON value",
+  members: "list of object members",
+  items: "list of array items",
+};
+
+export class MustachePartialValidator extends BaseValidator {
+  private parser: TemplateParser;
+  private renderer: TemplateRenderer;
+  private escapeService: EscapeService;
+
+  constructor() {
+    super("MustachePartialValidator", DIAGNOSTIC_SOURCES.MUSTACHE);
+    this.parser = new TemplateParser();
+    this.renderer = new TemplateRenderer();
+    this.escapeService = EscapeService.getInstance();
+  }
+
+  /**
+   * Main validation method
+   */
+  public async validate(text: string, document?: vscode.TextDocument, resolution?: PartialResolution): Promise<ValidationResult> {
+    const startTime = Date.now();
+    const errors = this.validateSync(text, resolution);
+    const processingTime = Date.now() - startTime;
+
+    return this.createValidationResult(errors, processingTime);
+  }
+
+  /**
+   * Synchronous validation - needs the partials resolved for this template
+   */
+  public validateSync(text: string, resolution?: PartialResolution): ValidationError[] {
+    if (!resolution) {
+      return [];
+    }
+
+    const errors: ValidationError[] = [];
+    const locate = createLineColumnLookup(text);
+
+    for (const issue of resolution.missing) {
+      const missing = issue.chain[issue.chain.length - 1];
+      const message =
+        issue.chain.length === 1
+          ? `Partial "${missing}" not found`
+          : `Partial "${missing}" not found (included via ${issue.chain.join(" → ")})`;
+      errors.push(this.createTagError(message, issue.tag, "error", ERROR_CODES.PARTIAL_NOT_FOUND, locate));
+    }
+
+    for (const issue of resolution.cycles) {
+      errors.push(
+        this.createTagError(
+          `Recursive partial include: ${issue.chain.join(" → ")} - rendering only ends if a section runs out of data`,
+          issue.tag,
+          "warning",
+          ERROR_CODES.PARTIAL_CYCLE,
+          locate
+        )
+      );
+    }
+
+    errors.push(...this.checkFragments(text, resolution, locate));
+
+    return this.sortErrors(errors);
+  }
+
+  /**
+   * Render each directly included partial with sample data and check it fits where it is included
+   */
+  private checkFragments(text: string, resolution: PartialResolution, locate: LineColumnLookup): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const ast = this.parser.parse(text);
+    const masked = maskMustacheTags(text, ast);
+    const tags = ast.tags.filter((tag) => tag.type === MustacheTagType.Partial && resolution.partials[tag.name] !== undefined);
+    const containers = findJSONContainers(
+      masked,
+      tags.map((tag) => tag.start)
+    );
+    const cyclic = new Set(resolution.cycles.map((issue) => issue.tag.start)); // Resolved from a separate parse, so matched by offset
+
+    tags.forEach((tag, index) => {
+      if (cyclic.has(tag.start) || this.isInsideString(masked, tag.start)) {
+        return;
+      }
+
+      const kind = this.getFragmentKind(masked, tag, containers[index]);
+      const problem = this.checkFragment(tag.name, kind, resolution);
+      if (problem) {
+        errors.push(
+          this.createTagError(
+            `Partial "${tag.name}" does not render a valid ${FRAGMENT_DESCRIPTIONS[kind]}: ${problem}`,
+            tag,
+            "warning",
+            ERROR_CODES.PARTIAL_INVALID_JSON,
+            locate
+          )
+        );
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Work out what a partial must render from where its tag sits in the JSON
+   */
+  private getFragmentKind(masked: string, tag: MustacheTag, container: "[" | "{" | undefined): FragmentKind {
+    let before = tag.start - 1;
+    while (before >= 0 && /\s/.test(masked[before])) {
+      before--;
+    }
+
+    if (!container || masked[before] === ":") {
+      return "value";
+    }
+    return container === "{" ? "members" : "items";
+  }
+
+  /**
+   * Render a partial on its own and parse it as its fragment kind, returning the parse error if it does not fit
+   */
+  private checkFragment(name: string, kind: FragmentKind, resolution: PartialResolution): string | undefined {
+    let escape: EscapeFunction;
+    try {
+      escape = this.escapeService.getEscapeFunction();
+    } catch {
+      return undefined; // A broken custom escape function is reported when rendering
+    }
+
+    let output: string;
+    try {
+      const context = this.createSampleContext(resolution.partials[name]);
+      output = this.renderer.render(`{{>${name}}}`, context, resolution.partials, escape).output;
+    } catch (error) {
+      return error instanceof Error ? error.message : "rendering failed";
+    }
+
+    // Neighbouring members or items may be separated by a comma on either side of the include
+    const fragment = kind === "value" ? output : output.trim().replace(/^,/, "").replace(/,$/, "");
+    if (kind !== "value" && !fragment.trim()) {
+      return undefined;
+    }
+
+    try {
+      JSON.parse(kind === "members" ? `{${fragment}}` : kind === "items" ? `[${fragment}]` : fragment);
+      return undefined;
+    } catch (error) {
+      return error instanceof Error ? error.message : "invalid JSON";
+    }
+  }
+
+  /**
+   * A context that resolves every name: sections render once, separator flags stay off so single items need no comma,
+   * and the leading segments of dotted names such as {{address.zip}} resolve to objects so the last segment is found
+   */
+  private createSampleContext(partial: string): TemplateContext {
+    const ast = this.parser.parse(partial);
+    const separators = new Set(
+      collectSections(ast)
+        .filter((section) => isSeparatorSection(section))
+        .map((section) => section.name)
+    );
+
+    const objectPaths = new Set<string>();
+    for (const tag of ast.tags) {
+      const segments = tag.name.split(".");
+      for (let i = 1; i < segments.length; i++) {
+        objectPaths.add(segments.slice(0, i).join("."));
+      }
+    }
+
+    const createObject = (path: string): TemplateContext =>
+      new Proxy(
+        {},
+        {
+          has: () => true,
+          get: (target, name) => {
+            if (name === Symbol.toPrimitive) {
+              return () => SAMPLE_VALUE; // {{address}} renders like any other value
+            }
+            if (typeof name !== "string") {
+              return undefined;
+            }
+            const childPath = path ? `${path}.${name}` : name;
+            if (objectPaths.has(childPath)) {
+              return createObject(childPath);
+            }
+            return separators.has(name) ? false : SAMPLE_VALUE;
+          },
+        }
+      );
+
+    return createObject("");
+  }
+
+  /**
+   * Check whether an offset is inside a JSON string
+   */
+  private isInsideString(masked: string, offset: number): boolean {
+    let inString = false;
+    for (let i = 0; i < offset; i++) {
+      if (inString && masked[i] === "\\") {
+        i++;
+      } else if (masked[i] === '"') {
+        inString = !inString;
+      }
+    }
+    return inString;
+  }
+
+  private createTagError(
+    message: string,
+    tag: MustacheTag,
+    severity: "error" | "warning",
+    code: string,
+    locate: LineColumnLookup
+  ): ValidationError {
+    const location = locate(tag.start);
+    return this.createValidationError(message, location.line, location.column, severity, tag.end - tag.start, code);
+  }
+}
@@ -0,0 +1,209 @@
+import * as vscode from "vscode";
+import { BaseValidator } from "../base/baseValidator";
+import { TemplateParser } from "../../services/templateParser";
+import { TemplateRenderer } from "../../services/templateRenderer";
+import { EscapeService } from "../../services/escapeService";
+import {
+  ValidationResult,
+  ValidationError,
+  ValidationFix,
+  TemplateContext,
+  JSONPosition,
+  MustacheTag,
+  MustacheTagType,
+  SourceMapSegment,
+  SourceMapSegmentKind,
+} from "../../core/types";
+import { DIAGNOSTIC_SOURCES, ERROR_CODES } from "../../core/constants";
+import { createLineColumnLookup } from "../../utils/rangeUtils";
+import { classifyJSONPositions } from "../../utils/jsonPositionUtils";
+import { formatValuePreview } from "../../utils/stringUtils";
+
+type LineColumnLookup = ReturnType<typeof createLineColumnLookup>;
+
+const MAX_VALUE_PREVIEW_LENGTH = 40;
+
+export class MustachePositionValidator extends BaseValidator {
+  private parser: TemplateParser;
+  private renderer: TemplateRenderer;
+  private escapeService: EscapeService;
+
+  constructor() {
+    super("MustachePositionValidator", DIAGNOSTIC_SOURCES.MUSTACHE);
+    this.parser = new TemplateParser();
+    this.renderer = new TemplateRenderer();
+    this.escapeService = EscapeService.getInstance();
+  }
+
+  /**
+   * Main validation method
+   */
+  public async validate(text: string, document?: vscode.TextDocument, context?: TemplateContext): Promise<ValidationResult> {
+    const startTime = Date.now();
+    const errors = this.validateSync(text, context);
+    const processingTime = Date.now() - startTime;
+
+    return this.createValidationResult(errors, processingTime);
+  }
+
+  /**
+   * Synchronous validation - value type rules only run when a context is available
+   */
+  public validateSync(text: string, context?: TemplateContext): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const ast = this.parser.parse(text);
+    const positions = classifyJSONPositions(text, ast);
+    const locate = createLineColumnLookup(text);
+
+    // Check for unescaped tags inside strings
+    errors.push(...this.checkUnescapedInStrings(positions, locate));
+
+    // Check rendered values against their JSON position
+    if (context) {
+      errors.push(...this.checkValueTypes(text, context, positions, locate));
+    }
+
+    return this.sortErrors(errors);
+  }
+
+  /**
+   * Flag {{{name}}} and {{&name}} inside strings - quotes or backslashes in the value will end the string early
+   */
+  private checkUnescapedInStrings(positions: Map<MustacheTag, JSONPosition>, locate: LineColumnLookup): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    for (const [tag, position] of positions) {
+      if (tag.type === MustacheTagType.Unescaped && position !== JSONPosition.Value) {
+        const location = locate(tag.start);
+        errors.push(
+          this.createValidationError(
+            `Unescaped tag inside a JSON string - a quote or backslash in "${tag.name}" will break the string; use {{${tag.name}}} instead`,
+            location.line,
+            location.column,
+            "warning",
+            tag.end - tag.start,
+            ERROR_CODES.UNESCAPED_IN_STRING
+          )
+        );
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Compare the type of each rendered value with where its tag sits in the JSON
+   */
+  private checkValueTypes(
+    text: string,
+    context: TemplateContext,
+    positions: Map<MustacheTag, JSONPosition>,
+    locate: LineColumnLookup
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const tagsByStart = new Map<number, MustacheTag>(Array.from(positions.keys()).map((tag) => [tag.start, tag]));
+    const reported = new Set<MustacheTag>();
+
+    let segments: SourceMapSegment[];
+    try {
+      segments = this.renderer.render(text, context, undefined, this.escapeService.getEscapeFunction()).segments;
+    } catch {
+      return errors; // Unrenderable templates are reported by the Mustache validators
+    }
+
+    for (const segment of segments) {
+      if (segment.kind !== SourceMapSegmentKind.Value || segment.partial) {
+        continue;
+      }
+
+      const tag = tagsByStart.get(segment.templateStart);
+      if (!tag || reported.has(tag)) {
+        continue;
+      }
+
+      const error = this.checkValueType(text, tag, positions.get(tag)!, segment, locate);
+      if (error) {
+        errors.push(error);
+        reported.add(tag); // One report per tag, from the first item that breaks it
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check one rendered value against its JSON position
+   */
+  private checkValueType(
+    text: string,
+    tag: MustacheTag,
+    position: JSONPosition,
+    segment: SourceMapSegment,
+    locate: LineColumnLookup
+  ): ValidationError | undefined {
+    const value = segment.value;
+    const location = locate(tag.start);
+    const length = tag.end - tag.start;
+    const preview = formatValuePreview(value, MAX_VALUE_PREVIEW_LENGTH);
+
+    // An unescaped tag in value position usually splices in raw JSON, e.g. {{{data}}} holding '{"a": 1}'
+    if (position === JSONPosition.Value && typeof value === "string" && tag.type !== MustacheTagType.Unescaped) {
+      return {
+        ...this.createValidationError(
+          `"${tag.name}" is a bare JSON value but ${segment.contextPath} is a string (${preview}) - wrap the tag in quotes`,
+          location.line,
+          location.column,
+          "warning",
+          length,
+          ERROR_CODES.VALUE_TYPE_MISMATCH
+        ),
+        fixes: [this.createQuoteFix(tag)],
+      };
+    }
+
+    if (position === JSONPosition.String && (typeof value === "number" || typeof value === "boolean")) {
+      const error = this.createValidationError(
+        `"${tag.name}" is inside a JSON string but ${segment.contextPath} is a ${typeof value} (${preview}) - it will render as a string`,
+        location.line,
+        location.column,
+        "warning",
+        length,
+        ERROR_CODES.VALUE_TYPE_MISMATCH
+      );
+
+      // Only offer to unquote when the tag is the whole string
+      const isWholeString = text[tag.start - 1] === '"' && text[tag.end] === '"';
+      return isWholeString ? { ...error, fixes: [this.createUnquoteFix(tag)] } : error;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Fix: "{{name}}"
+   */
+  private createQuoteFix(tag: MustacheTag): ValidationFix {
+    return {
+      title: `Wrap {{${tag.name}}} in quotes`,
+      edits: [
+        { start: tag.start, end: tag.start, newText: '"' },
+        { start: tag.end, end: tag.end, newText: '"' },
+      ],
+      isPreferred: true,
+    };
+  }
+
+  /**
+   * Fix: {{name}} without the surrounding quotes
+   */
+  private createUnquoteFix(tag: MustacheTag): ValidationFix {
+    return {
+      title: `Remove the quotes around {{${tag.name}}}`,
+      edits: [
+        { start: tag.start - 1, end: tag.start, newText: "" },
+        { start: tag.end, end: tag.end + 1, newText: "" },
+      ],
+      isPreferred: true,
+    };
+  }
+}
@@ -1,16 +1,53 @@
 import * as vscode from "vscode";
 import { BaseValidator } from "../base/baseValidator";
-import { ValidationResult, ValidationError, ParsedMustacheTemplate, MustacheSection, SectionType } from "../../core/types";
+import { TemplateParser } from "../../services/templateParser";
+import {
+  ValidationResult,
+  ValidationError,
+  ParsedMustacheTemplate,
+  MustacheSection,
+  MustacheSectionPair,
+  MustacheSectionNode,
+  MustacheNodeType,
+  MustacheRootNode,
+  MustacheTagType,
+  SectionType,
+  ValidationFix,
+} from "../../core/types";
 import { DIAGNOSTIC_SOURCES, ERROR_CODES } from "../../core/constants";
+import { collectSections, isSeparatorSection } from "../../utils/astUtils";
+import { createLineColumnLookup } from "../../utils/rangeUtils";
+import { findJSONContainers, maskMustacheTags, SECTION_MARK } from "../../utils/jsonPositionUtils";
 
 interface SectionStack {
   section: MustacheSection;
   depth: number;
 }
 
+// What surrounds a list item in the rendered JSON
+type SeparatorToken = "open" | "close" | "comma" | "colon" | "element" | "unknown";
+
+type SeparatorProblem = "trailing" | "leading" | "doubled" | "missing";
+
+interface LoopSeparator {
+  kind: "comma" | "flag"; // A literal "," or a {{#comma}},{{/comma}} section
+  start: number;
+  end: number;
+}
+
+interface LoopShape {
+  lead?: LoopSeparator;
+  trail?: LoopSeparator;
+}
+
+const DEFAULT_SEPARATOR = "{{#comma}},{{/comma}}";
+
 export class MustacheSectionValidator extends BaseValidator {
+  private parser: TemplateParser;
+
   constructor() {
     super("MustacheSectionValidator", DIAGNOSTIC_SOURCES.MUSTACHE);
+    this.parser = new TemplateParser();
   }
 
   /**
@@ -31,10 +68,11 @@ export class MustacheSectionValidator extends BaseValidator {
     const errors: ValidationError[] = [];
 
     // Parse sections if not provided
-    const sections = parsed?.sections || this.extractSections(text);
+    const ast = parsed?.ast || this.parser.parse(text);
+    const sections = parsed?.sections || this.extractSections(text, ast);
 
     // Validate section matching
-    errors.push(...this.validateSectionMatching(sections));
+    errors.push(...this.validateSectionMatching(sections, text, ast));
 
     // Validate section nesting
     errors.push(...this.validateSectionNesting(sections));
@@ -43,7 +81,10 @@ export class MustacheSectionValidator extends BaseValidator {
     errors.push(...this.validateSectionNames(sections));
 
     // Validate section logic
-    errors.push(...this.validateSectionLogic(sections, text));
+    errors.push(...this.validateSectionLogic(sections, text, ast));
+
+    // Validate separators between list items
+    errors.push(...this.validateLoopSeparators(text, ast));
 
     return this.sortErrors(errors);
   }
@@ -51,7 +92,7 @@ export class MustacheSectionValidator extends BaseValidator {
   /**
    * Validate that sections have matching opening/closing tags
    */
-  private validateSectionMatching(sections: MustacheSection[]): ValidationError[] {
+  private validateSectionMatching(sections: MustacheSection[], text: string, ast: MustacheRootNode): ValidationError[] {
     const errors: ValidationError[] = [];
     const sectionStack: SectionStack[] = [];
 
@@ -68,28 +109,34 @@ export class MustacheSectionValidator extends BaseValidator {
 
         if (!lastSection) {
           // No matching opening section
-          errors.push(
-            this.createValidationError(
-              `Unexpected closing section: {{/${section.name}}} - no matching opening section found`,
-              section.startLine,
-              section.startColumn,
-              "error",
-              section.length,
-              ERROR_CODES.MISMATCHED_SECTION
-            )
+          const error = this.createValidationError(
+            `Unexpected closing section: {{/${section.name}}} - no matching opening section found`,
+            section.startLine,
+            section.startColumn,
+            "error",
+            section.length,
+            ERROR_CODES.MISMATCHED_SECTION
           );
+          errors.push({
+            ...error,
+            fixes: [
+              {
+                title: `Remove {{/${section.name}}}`,
+                edits: [{ start: section.offset, end: section.offset + section.length, newText: "" }],
+              },
+            ],
+          });
         } else if (lastSection.section.name !== section.name) {
           // Mismatched section names
-          errors.push(
-            this.createValidationError(
-              `Mismatched section: expected {{/${lastSection.section.name}}}, found {{/${section.name}}}`,
-              section.startLine,
-              section.startColumn,
-              "error",
-              section.length,
-              ERROR_CODES.MISMATCHED_SECTION
-            )
+          const error = this.createValidationError(
+            `Mismatched section: expected {{/${lastSection.section.name}}}, found {{/${section.name}}}`,
+            section.startLine,
+            section.startColumn,
+            "error",
+            section.length,
+            ERROR_CODES.MISMATCHED_SECTION
           );
+          errors.push({ ...error, fixes: this.getMismatchedSectionFixes(text, section, lastSection.section, sectionStack) });
 
           // Add related information about the opening section
           errors.push(
@@ -107,22 +154,92 @@ export class MustacheSectionValidator extends BaseValidator {
     }
 
     // Check for unclosed sections
+    const masked = sectionStack.length > 0 ? maskMustacheTags(text, ast) : text;
+
     for (const unclosed of sectionStack) {
-      errors.push(
-        this.createValidationError(
-          `Unclosed section: {{#${unclosed.section.name}}} - missing {{/${unclosed.section.name}}}`,
-          unclosed.section.startLine,
-          unclosed.section.startColumn,
-          "error",
-          unclosed.section.length,
-          ERROR_CODES.MISMATCHED_SECTION
-        )
+      const end = this.findUnclosedSectionEnd(text, masked, unclosed.section.offset + unclosed.section.length);
+      const error = this.createValidationError(
+        `Unclosed section: {{#${unclosed.section.name}}} - missing {{/${unclosed.section.name}}}`,
+        unclosed.section.startLine,
+        unclosed.section.startColumn,
+        "error",
+        unclosed.section.length,
+        ERROR_CODES.MISMATCHED_SECTION
       );
+      errors.push({
+        ...error,
+        fixes: [
+          {
+            title: `Insert the missing {{/${unclosed.section.name}}}`,
+            edits: [{ start: end, end, newText: `{{/${unclosed.section.name}}}` }],
+            isPreferred: true,
+          },
+        ],
+      });
     }
 
     return errors;
   }
 
+  /**
+   * Find where to close an unclosed section: before the end of the object or array it opens in, or at the end of the template
+   */
+  private findUnclosedSectionEnd(text: string, masked: string, offset: number): number {
+    let depth = 0;
+    let end = masked.length;
+
+    for (let i = offset; i < masked.length; i++) {
+      const char = masked[i];
+      if (char === '"') {
+        for (i++; i < masked.length && masked[i] !== '"'; i++) {
+          if (masked[i] === "\\") {
+            i++;
+          }
+        }
+      } else if (char === "{" || char === "[") {
+        depth++;
+      } else if ((char === "}" || char === "]") && depth-- === 0) {
+        end = i;
+        break;
+      }
+    }
+
+    while (end > offset && /\s/.test(text[end - 1])) {
+      end--;
+    }
+    return end;
+  }
+
+  /**
+   * Rename a mismatched closing tag, or close the open section before it when the closing tag belongs further out
+   */
+  private getMismatchedSectionFixes(
+    text: string,
+    closing: MustacheSection,
+    opening: MustacheSection,
+    openSections: SectionStack[]
+  ): ValidationFix[] {
+    const closesOuterSection = openSections.some((open) => open.section.name === closing.name);
+    const nameStart = closing.offset + text.substring(closing.offset, closing.offset + closing.length).lastIndexOf(closing.name);
+    const fixes: ValidationFix[] = [
+      {
+        title: `Insert the missing {{/${opening.name}}}`,
+        edits: [{ start: closing.offset, end: closing.offset, newText: `{{/${opening.name}}}` }],
+        isPreferred: closesOuterSection,
+      },
+    ];
+
+    if (closing.name) {
+      fixes.unshift({
+        title: `Rename to {{/${opening.name}}}`,
+        edits: [{ start: nameStart, end: nameStart + closing.name.length, newText: opening.name }],
+        isPreferred: !closesOuterSection,
+      });
+    }
+
+    return fixes;
+  }
+
   /**
    * Validate section nesting depth and structure
    */
@@ -259,9 +376,9 @@ export class MustacheSectionValidator extends BaseValidator {
   /**
    * Validate section logic and common patterns
    */
-  private validateSectionLogic(sections: MustacheSection[], text: string): ValidationError[] {
+  private validateSectionLogic(sections: MustacheSection[], text: string, ast: MustacheRootNode): ValidationError[] {
     const errors: ValidationError[] = [];
-    const lines = text.split("\n");
+    const sectionNodes = new Map<number, MustacheSectionNode>(collectSections(ast).map((node) => [node.openTag.start, node]));
 
     // Group sections by their relationships
     const sectionPairs = this.groupSectionPairs(sections);
@@ -272,16 +389,10 @@ export class MustacheSectionValidator extends BaseValidator {
       }
 
       // Extract content between opening and closing sections
-      const content = this.extractSectionContent(
-        lines,
-        pair.opening.startLine,
-        pair.opening.startColumn + pair.opening.length,
-        pair.closing.startLine,
-        pair.closing.startColumn
-      );
+      const content = text.substring(pair.opening.offset + pair.opening.length, pair.closing.offset);
 
       // Validate section content
-      errors.push(...this.validateSectionContent(pair, content));
+      errors.push(...this.validateSectionContent(pair, content, sectionNodes.get(pair.opening.offset)));
     }
 
     return errors;
@@ -290,8 +401,8 @@ export class MustacheSectionValidator extends BaseValidator {
   /**
    * Group sections into opening/closing pairs
    */
-  private groupSectionPairs(sections: MustacheSection[]): Array<{ opening: MustacheSection; closing?: MustacheSection }> {
-    const pairs: Array<{ opening: MustacheSection; closing?: MustacheSection }> = [];
+  public groupSectionPairs(sections: MustacheSection[]): MustacheSectionPair[] {
+    const pairs: MustacheSectionPair[] = [];
     const sectionStack: MustacheSection[] = [];
 
     for (const section of sections) {
@@ -317,36 +428,10 @@ export class MustacheSectionValidator extends BaseValidator {
     return pairs;
   }
 
-  /**
-   * Extract content between section tags
-   */
-  private extractSectionContent(lines: string[], startLine: number, startColumn: number, endLine: number, endColumn: number): string {
-    if (startLine === endLine) {
-      return lines[startLine - 1]?.substring(startColumn, endColumn) || "";
-    }
-
-    let content = "";
-
-    for (let i = startLine - 1; i <= endLine - 1 && i < lines.length; i++) {
-      if (i === startLine - 1) {
-        // First line - take from startColumn to end
-        content += lines[i].substring(startColumn) + "\n";
-      } else if (i === endLine - 1) {
-        // Last line - take from start to endColumn
-        content += lines[i].substring(0, endColumn);
-      } else {
-        // Middle lines - take entire line
-        content += lines[i] + "\n";
-      }
-    }
-
-    return content;
-  }
-
   /**
    * Validate content within a section
    */
-  private validateSectionContent(pair: { opening: MustacheSection; closing?: MustacheSection }, content: string): ValidationError[] {
+  private validateSectionContent(pair: MustacheSectionPair, content: string, node?: MustacheSectionNode): ValidationError[] {
     const errors: ValidationError[] = [];
 
     if (!content.trim()) {
@@ -366,7 +451,7 @@ export class MustacheSectionValidator extends BaseValidator {
     }
 
     // Check for common anti-patterns
-    errors.push(...this.checkSectionAntiPatterns(pair, content));
+    errors.push(...this.checkSectionAntiPatterns(pair, content, node));
 
     return errors;
   }
@@ -374,12 +459,17 @@ export class MustacheSectionValidator extends BaseValidator {
   /**
    * Check for section anti-patterns
    */
-  private checkSectionAntiPatterns(pair: { opening: MustacheSection; closing?: MustacheSection }, content: string): ValidationError[] {
+  private checkSectionAntiPatterns(pair: MustacheSectionPair, content: string, node?: MustacheSectionNode): ValidationError[] {
     const errors: ValidationError[] = [];
 
+    if (!node) {
+      return errors;
+    }
+
+    const meaningfulChildren = node.children.filter((child) => child.type !== MustacheNodeType.Text || child.value.trim());
+
     // Anti-pattern: Section with only whitespace or comments
-    const contentWithoutComments = content.replace(/\{\{!.*?\}\}/g, "").trim();
-    if (!contentWithoutComments && content.trim()) {
+    if (content.trim() && meaningfulChildren.every((child) => child.type === MustacheNodeType.Comment)) {
       errors.push(
         this.createValidationError(
           `Section "{{#${pair.opening.name}}}" contains only comments or whitespace`,
@@ -393,8 +483,8 @@ export class MustacheSectionValidator extends BaseValidator {
     }
 
     // Anti-pattern: Immediately nested same-type section
-    const immediateNestedPattern = new RegExp(`^\\s*\\{\\{[#^]\\s*${pair.opening.name}\\s*\\}\\}`);
-    if (immediateNestedPattern.test(content)) {
+    const firstChild = meaningfulChildren[0];
+    if (firstChild && firstChild.type === MustacheNodeType.Section && firstChild.name === pair.opening.name) {
       errors.push(
         this.createValidationError(
           `Immediately nested section with same name "${pair.opening.name}" may be redundant`,
@@ -411,54 +501,279 @@ export class MustacheSectionValidator extends BaseValidator {
   }
 
   /**
-   * Extract sections from text (fallback if not provided)
+   * Check that sections inside JSON arrays and objects separate their items correctly for 0, 1 and N iterations
    */
-  private extractSections(text: string): MustacheSection[] {
-    const sections: MustacheSection[] = [];
-    const lines = text.split("\n");
-
-    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-      const line = lines[lineIndex];
-      const lineNumber = lineIndex + 1;
-
-      // Opening sections: {{#name}}
-      let match;
-      const openingPattern = /\{\{\s*#\s*([a-zA-Z_][a-zA-Z0-9_.\-]*)\s*\}\}/g;
-      while ((match = openingPattern.exec(line)) !== null) {
-        sections.push({
-          name: match[1],
-          type: SectionType.Normal,
-          startLine: lineNumber,
-          startColumn: match.index,
-          length: match[0].length,
-        });
+  private validateLoopSeparators(text: string, ast: MustacheRootNode): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const masked = maskMustacheTags(text, ast);
+    const sections = collectSections(ast).filter((section) => section.closeTag);
+    const containers = findJSONContainers(
+      masked,
+      sections.map((section) => section.openTag.start)
+    );
+    const separator = this.findSeparatorText(text, ast);
+    const locate = createLineColumnLookup(text);
+
+    sections.forEach((section, index) => {
+      const container = containers[index];
+      if (!container) {
+        return; // Top level or inside a string
       }
 
-      // Inverted sections: {{^name}}
-      const invertedPattern = /\{\{\s*\^\s*([a-zA-Z_][a-zA-Z0-9_.\-]*)\s*\}\}/g;
-      while ((match = invertedPattern.exec(line)) !== null) {
-        sections.push({
-          name: match[1],
-          type: SectionType.Inverted,
-          startLine: lineNumber,
-          startColumn: match.index,
-          length: match[0].length,
-        });
+      const before = this.classifySeparatorToken(masked, section.openTag.start - 1, -1);
+      if (before === "colon") {
+        return; // A property value, not a list item
       }
 
-      // Closing sections: {{/name}}
-      const closingPattern = /\{\{\s*\/\s*([a-zA-Z_][a-zA-Z0-9_.\-]*)\s*\}\}/g;
-      while ((match = closingPattern.exec(line)) !== null) {
-        sections.push({
-          name: match[1],
-          type: SectionType.Closing,
-          startLine: lineNumber,
-          startColumn: match.index,
-          length: match[0].length,
-        });
+      const shape = this.getLoopShape(section);
+      if (!shape) {
+        return;
       }
+
+      // Sections in objects without separators are conditional members, not lists
+      const after = this.classifySeparatorToken(masked, section.closeTag!.end, 1);
+      const isList = !section.inverted && (container === "[" || shape.lead || shape.trail);
+      const counts = isList ? [0, 1, 2] : [0, 1];
+      const problems = new Map<SeparatorProblem, number[]>();
+
+      for (const count of counts) {
+        for (const problem of this.simulateLoop(before, after, shape, count)) {
+          problems.set(problem, [...(problems.get(problem) || []), count]);
+        }
+      }
+
+      for (const [problem, problemCounts] of problems) {
+        errors.push(this.createSeparatorError(text, section, shape, problem, problemCounts, separator, locate));
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Classify the first significant character before (step -1) or after (step 1) an offset
+   */
+  private classifySeparatorToken(masked: string, from: number, step: 1 | -1): SeparatorToken {
+    for (let i = from; i >= 0 && i < masked.length; i += step) {
+      const char = masked[i];
+
+      if (/\s/.test(char)) {
+        continue;
+      }
+
+      switch (char) {
+        case SECTION_MARK:
+          return "unknown";
+        case ",":
+          return "comma";
+        case ":":
+          return step < 0 ? "colon" : "unknown";
+        case "[":
+        case "{":
+          return step < 0 ? "open" : "element";
+        case "]":
+        case "}":
+          return step < 0 ? "element" : "close";
+        default:
+          return "element";
+      }
+    }
+
+    return "unknown";
+  }
+
+  /**
+   * Split a section body into leading separator, item and trailing separator
+   */
+  private getLoopShape(section: MustacheSectionNode): LoopShape | undefined {
+    const children = section.children.filter(
+      (child) => child.type !== MustacheNodeType.Comment && (child.type !== MustacheNodeType.Text || child.value.trim())
+    );
+    if (children.length === 0) {
+      return undefined;
+    }
+
+    const shape: LoopShape = {};
+    const core = children.map((child) => (child.type === MustacheNodeType.Text ? child.value : SECTION_MARK));
+
+    const head = children[0];
+    if (head.type === MustacheNodeType.Section && isSeparatorSection(head)) {
+      shape.lead = { kind: "flag", start: head.start, end: head.end };
+      core[0] = "";
+    } else if (head.type === MustacheNodeType.Text && head.value.trimStart().startsWith(",")) {
+      const index = head.value.indexOf(",");
+      shape.lead = { kind: "comma", start: head.start + index, end: head.start + index + 1 };
+      core[0] = head.value.substring(index + 1);
+    }
+
+    const lastIndex = children.length - 1;
+    const tail = children[lastIndex];
+    if (tail.type === MustacheNodeType.Section && isSeparatorSection(tail) && tail !== head) {
+      shape.trail = { kind: "flag", start: tail.start, end: tail.end };
+      core[lastIndex] = "";
+    } else if (tail.type === MustacheNodeType.Text && core[lastIndex].trimEnd().endsWith(",")) {
+      const index = tail.value.lastIndexOf(",");
+      shape.trail = { kind: "comma", start: tail.start + index, end: tail.start + index + 1 };
+      core[lastIndex] = core[lastIndex].substring(0, core[lastIndex].lastIndexOf(","));
+    }
+
+    // A body that is nothing but a separator is the separator flag itself
+    return core.join("").trim() ? shape : undefined;
+  }
+
+  /**
+   * Render a loop as JSON tokens and find separator problems
+   */
+  private simulateLoop(before: SeparatorToken, after: SeparatorToken, shape: LoopShape, count: number): Set<SeparatorProblem> {
+    const tokens: SeparatorToken[] = [before];
+
+    // Separator flags follow the data-side contract: set on every item except the first (leading) or last (trailing)
+    for (let i = 0; i < count; i++) {
+      if (shape.lead && (shape.lead.kind === "comma" || i > 0)) {
+        tokens.push("comma");
+      }
+      tokens.push("element");
+      if (shape.trail && (shape.trail.kind === "comma" || i < count - 1)) {
+        tokens.push("comma");
+      }
+    }
+    tokens.push(after);
+
+    const problems = new Set<SeparatorProblem>();
+    for (let i = 1; i < tokens.length; i++) {
+      const problem = this.getSeparatorProblem(tokens[i - 1], tokens[i]);
+      if (problem) {
+        problems.add(problem);
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Get the problem between two adjacent JSON tokens, if any
+   */
+  private getSeparatorProblem(previous: SeparatorToken, next: SeparatorToken): SeparatorProblem | undefined {
+    if (previous === "comma" && next === "comma") {
+      return "doubled";
+    }
+    if (previous === "comma" && next === "close") {
+      return "trailing";
+    }
+    if (previous === "open" && next === "comma") {
+      return "leading";
+    }
+    if (previous === "element" && next === "element") {
+      return "missing";
+    }
+    return undefined;
+  }
+
+  /**
+   * Reuse the separator idiom the template already uses, e.g. {{^last}},{{/last}}
+   */
+  private findSeparatorText(text: string, ast: MustacheRootNode): string {
+    const existing = collectSections(ast).find((section) => isSeparatorSection(section) && section.closeTag);
+    return existing ? text.substring(existing.openTag.start, existing.closeTag!.end) : DEFAULT_SEPARATOR;
+  }
+
+  /**
+   * Create a separator warning with fixes for the common idioms
+   */
+  private createSeparatorError(
+    text: string,
+    section: MustacheSectionNode,
+    shape: LoopShape,
+    problem: SeparatorProblem,
+    counts: number[],
+    separator: string,
+    locate: ReturnType<typeof createLineColumnLookup>
+  ): ValidationError {
+    const tag = `{{${section.inverted ? "^" : "#"}${section.name}}}`;
+    const when = counts.map((count) => (count === 0 ? "is skipped" : count === 1 ? "renders once" : "repeats")).join(" or ");
+    const messages: { [problem in SeparatorProblem]: string } = {
+      trailing: `Section ${tag} leaves a trailing comma when it ${when}`,
+      leading: `Section ${tag} leaves a leading comma when it ${when}`,
+      doubled: `Section ${tag} renders a doubled comma when it ${when}`,
+      missing: `Section ${tag} renders items without a separating comma when it ${when}`,
+    };
+
+    const anchor =
+      (problem === "missing" ? undefined : problem === "leading" ? shape.lead || shape.trail : shape.trail || shape.lead) ||
+      section.openTag;
+    const location = locate(anchor.start);
+    const error = this.createValidationError(
+      messages[problem],
+      location.line,
+      location.column,
+      "warning",
+      anchor.end - anchor.start,
+      ERROR_CODES.LOOP_SEPARATOR
+    );
+
+    const fixes = this.getSeparatorFixes(text, section, shape, problem, separator);
+    return fixes.length > 0 ? { ...error, fixes } : error;
+  }
+
+  /**
+   * Suggest the usual separator idioms
+   */
+  private getSeparatorFixes(
+    text: string,
+    section: MustacheSectionNode,
+    shape: LoopShape,
+    problem: SeparatorProblem,
+    separator: string
+  ): ValidationFix[] {
+    const fixes: ValidationFix[] = [];
+
+    if ((problem === "trailing" || problem === "doubled") && shape.trail?.kind === "comma") {
+      fixes.push({
+        title: `Replace the comma with ${separator}`,
+        edits: [{ start: shape.trail.start, end: shape.trail.end, newText: separator }],
+        isPreferred: true,
+      });
     }
 
-    return sections;
+    if (problem === "missing" && !shape.lead && !shape.trail) {
+      let end = section.closeTag!.start;
+      while (end > section.openTag.end && /\s/.test(text[end - 1])) {
+        end--;
+      }
+
+      fixes.push({
+        title: `Add ${separator} after each item`,
+        edits: [{ start: end, end, newText: separator }],
+        isPreferred: true,
+      });
+    }
+
+    return fixes;
+  }
+
+  /**
+   * Extract sections from the parsed template (fallback if not provided)
+   */
+  public extractSections(text: string, ast: MustacheRootNode): MustacheSection[] {
+    const locate = createLineColumnLookup(text);
+    const sectionTypes: { [type: string]: SectionType } = {
+      [MustacheTagType.Section]: SectionType.Normal,
+      [MustacheTagType.Inverted]: SectionType.Inverted,
+      [MustacheTagType.Closing]: SectionType.Closing,
+    };
+
+    return ast.tags
+      .filter((tag) => tag.type in sectionTypes)
+      .map((tag) => {
+        const location = locate(tag.start);
+        return {
+          name: tag.name,
+          type: sectionTypes[tag.type],
+          startLine: location.line,
+          startColumn: location.column,
+          length: tag.end - tag.start,
+          offset: tag.start,
+        };
+      });
   }
 }
@@ -1,19 +1,36 @@
 import * as vscode from "vscode";
 import { BaseValidator } from "../base/baseValidator";
-import { ValidationResult, ValidationError } from "../../core/types";
-import { DIAGNOSTIC_SOURCES, ERROR_CODES, MUSTACHE_PATTERNS } from "../../core/constants";
+import { TemplateParser } from "../../services/templateParser";
+import {
+  ValidationResult,
+  ValidationError,
+  ValidationSeverity,
+  ParsedMustacheTemplate,
+  MustacheRootNode,
+  MustacheNodeType,
+  MustacheTag,
+  MustacheTagType,
+} from "../../core/types";
+import { DIAGNOSTIC_SOURCES, ERROR_CODES } from "../../core/constants";
+import { walkNodes } from "../../utils/astUtils";
+import { createLineColumnLookup } from "../../utils/rangeUtils";
+
+type LineColumnLookup = ReturnType<typeof createLineColumnLookup>;
 
 export class MustacheSyntaxValidator extends BaseValidator {
+  private parser: TemplateParser;
+
   constructor() {
     super("MustacheSyntaxValidator", DIAGNOSTIC_SOURCES.MUSTACHE);
+    this.parser = new TemplateParser();
   }
 
   /**
    * Main validation method
    */
-  public async validate(text: string, document?: vscode.TextDocument): Promise<ValidationResult> {
+  public async validate(text: string, document?: vscode.TextDocument, parsed?: ParsedMustacheTemplate): Promise<ValidationResult> {
     const startTime = Date.now();
-    const errors = this.validateSync(text);
+    const errors = this.validateSync(text, parsed);
     const processingTime = Date.now() - startTime;
 
     return this.createValidationResult(errors, processingTime);
@@ -21,104 +38,41 @@ export class MustacheSyntaxValidator extends BaseValidator {
 
   /**
    * Synchronous validation
+   *
+   * Unclosed, nested and over-braced tags are reported by the parser itself (see MustacheValidator.parseTemplate)
    */
-  public validateSync(text: string): ValidationError[] {
+  public validateSync(text: string, parsed?: ParsedMustacheTemplate): ValidationError[] {
     const errors: ValidationError[] = [];
-
-    // Check for unclosed tags
-    errors.push(...this.checkUnclosedTags(text));
+    const ast = parsed?.ast || this.parser.parse(text);
+    const locate = createLineColumnLookup(text);
 
     // Check for malformed tags
-    errors.push(...this.checkMalformedTags(text));
+    errors.push(...this.checkMalformedTags(text, ast, locate));
 
     // Check for invalid tag names
-    errors.push(...this.checkInvalidTagNames(text));
-
-    // Check for nested tags
-    errors.push(...this.checkNestedTags(text));
-
-    // Check for unbalanced braces
-    errors.push(...this.checkUnbalancedBraces(text));
+    errors.push(...this.checkInvalidTagNames(ast, locate));
 
     return this.sortErrors(errors);
   }
 
   /**
-   * Check for unclosed Mustache tags
+   * Check for malformed Mustache tags
    */
-  private checkUnclosedTags(text: string): ValidationError[] {
+  private checkMalformedTags(text: string, ast: MustacheRootNode, locate: LineColumnLookup): ValidationError[] {
     const errors: ValidationError[] = [];
-    const lines = text.split("\n");
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNumber = i + 1;
-
-      // Find opening braces without closing braces
-      let match;
-      while ((match = MUSTACHE_PATTERNS.UNCLOSED_TAG.exec(line)) !== null) {
-        errors.push(
-          this.createValidationError(
-            'Unclosed Mustache tag - missing closing "}}"',
-            lineNumber,
-            match.index,
-            "error",
-            2, // Length of "{{"
-            ERROR_CODES.UNCLOSED_TAG
-          )
-        );
+    // Check for single braces that are NOT part of double braces
+    walkNodes(ast.children, (node) => {
+      if (node.type === MustacheNodeType.Text) {
+        this.checkSingleBraces(node.value, node.start, locate, errors);
       }
+    });
 
-      // Reset regex lastIndex for next iteration
-      MUSTACHE_PATTERNS.UNCLOSED_TAG.lastIndex = 0;
-    }
-
-    return errors;
-  }
-
-  /**
-   * Check for malformed Mustache tags
-   */
-  private checkMalformedTags(text: string): ValidationError[] {
-    const errors: ValidationError[] = [];
-    const lines = text.split("\n");
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNumber = i + 1;
-
-      // Check for single braces that are NOT part of double braces
-      this.checkSingleBraces(line, lineNumber, errors);
-
-      // Find other malformed patterns
-      const malformedPatterns = [
-        // More than three opening braces
-        { regex: /\{{4,}/g, message: "Too many opening braces - use {{ or {{{" },
-        // More than three closing braces
-        { regex: /\}{4,}/g, message: "Too many closing braces - use }} or }}}" },
-        // Mixed brace counts
-        { regex: /\{\{\{[^}]*\}\}/g, message: "Mismatched braces - triple braces need triple closing: {{{...}}}" },
-        { regex: /\{\{[^}]*\}\}\}/g, message: "Mismatched braces - double braces need double closing: {{...}}" },
-        // Empty tags
-        { regex: /\{\{\s*\}\}/g, message: "Empty Mustache tag" },
-      ];
-
-      for (const pattern of malformedPatterns) {
-        let match;
-        while ((match = pattern.regex.exec(line)) !== null) {
-          errors.push(
-            this.createValidationError(
-              pattern.message,
-              lineNumber,
-              match.index,
-              "error",
-              match[0].length,
-              ERROR_CODES.MUSTACHE_SYNTAX_ERROR
-            )
-          );
-        }
-        // Reset regex lastIndex
-        pattern.regex.lastIndex = 0;
+    // Empty tags
+    for (const tag of ast.tags) {
+      if (tag.type === MustacheTagType.Variable && !tag.name) {
+        const error = this.createTagError("Empty Mustache tag", tag, locate, ERROR_CODES.MUSTACHE_SYNTAX_ERROR);
+        errors.push({ ...error, fixes: [{ title: "Remove the empty tag", edits: [{ start: tag.start, end: tag.end, newText: "" }] }] });
       }
     }
 
@@ -128,75 +82,50 @@ export class MustacheSyntaxValidator extends BaseValidator {
   /**
    * Check for single braces that should be double braces
    */
-  private checkSingleBraces(line: string, lineNumber: number, errors: ValidationError[]): void {
-    // Look for single braces that are not part of double braces
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === "{") {
-        // Check if this is NOT part of {{ (double opening)
-        if (line[i + 1] !== "{") {
-          // Find the closing brace
-          const closingIndex = line.indexOf("}", i);
-          if (closingIndex !== -1 && line[closingIndex + 1] !== "}") {
-            // This is a single brace pair like {something}
-            const content = line.substring(i, closingIndex + 1);
-            errors.push(
-              this.createValidationError(
-                "Single braces should be double braces: {{...}}",
-                lineNumber,
-                i,
-                "error",
-                content.length,
-                ERROR_CODES.MUSTACHE_SYNTAX_ERROR
-              )
-            );
-          }
-        }
-      }
+  private checkSingleBraces(text: string, offset: number, locate: LineColumnLookup, errors: ValidationError[]): void {
+    // Only flag brace pairs that look like a tag ({name}, {#section}) - JSON objects always contain quotes or colons
+    const singleBracePattern = /(?<!\{)\{\s*[#^/&>!]?\s*[a-zA-Z_][a-zA-Z0-9_.\-]*\s*\}(?!\})/g;
+    let match;
+
+    while ((match = singleBracePattern.exec(text)) !== null) {
+      const start = offset + match.index;
+      const end = start + match[0].length;
+      const location = locate(start);
+      const error = this.createValidationError(
+        "Single braces should be double braces: {{...}}",
+        location.line,
+        location.column,
+        "error",
+        match[0].length,
+        ERROR_CODES.MUSTACHE_SYNTAX_ERROR
+      );
+
+      errors.push({
+        ...error,
+        fixes: [
+          {
+            title: "Use double braces",
+            edits: [
+              { start, end: start, newText: "{" },
+              { start: end, end, newText: "}" },
+            ],
+            isPreferred: true,
+          },
+        ],
+      });
     }
   }
 
   /**
    * Check for invalid tag names
    */
-  private checkInvalidTagNames(text: string): ValidationError[] {
+  private checkInvalidTagNames(ast: MustacheRootNode, locate: LineColumnLookup): ValidationError[] {
     const errors: ValidationError[] = [];
-    const lines = text.split("\n");
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNumber = i + 1;
-
-      // Find tags with invalid characters
-      const invalidPatterns = [
-        // Section tags without names
-        { regex: /\{\{\s*[#^/]\s*\}\}/g, message: "Section tag missing name" },
-        // Tags starting with numbers or invalid characters
-        { regex: /\{\{\s*[#^/]?\s*[0-9][^}]*\}\}/g, message: "Tag names cannot start with numbers" },
-        // Tags with special characters (except dots and dashes)
-        {
-          regex: /\{\{\s*[#^/&]?\s*[a-zA-Z_][^}\s]*[^\w.\-][^}]*\}\}/g,
-          message: "Invalid characters in tag name - use only letters, numbers, dots, underscores, and dashes",
-        },
-        // Whitespace in tag names (not around)
-        { regex: /\{\{\s*[#^/&]?\s*[a-zA-Z_][^}]*\s+[^}]*\}\}/g, message: "Tag names cannot contain whitespace" },
-      ];
-
-      for (const pattern of invalidPatterns) {
-        let match;
-        while ((match = pattern.regex.exec(line)) !== null) {
-          // Skip if it's a comment (starts with !)
-          if (match[0].includes("{{!") || match[0].includes("{{ !")) {
-            continue;
-          }
-
-          errors.push(
-            this.createValidationError(pattern.message, lineNumber, match.index, "error", match[0].length, ERROR_CODES.INVALID_TAG_NAME)
-          );
-        }
-        // Reset regex lastIndex
-        pattern.regex.lastIndex = 0;
+
+    for (const tag of ast.tags) {
+      const message = this.getInvalidNameMessage(tag);
+      if (message) {
+        errors.push(this.createTagError(message, tag, locate, ERROR_CODES.INVALID_TAG_NAME));
       }
     }
 
@@ -204,66 +133,52 @@ export class MustacheSyntaxValidator extends BaseValidator {
   }
 
   /**
-   * Check for nested Mustache tags (not allowed)
+   * Get the problem with a tag's name, if any
    */
-  private checkNestedTags(text: string): ValidationError[] {
-    const errors: ValidationError[] = [];
-    const lines = text.split("\n");
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNumber = i + 1;
+  private getInvalidNameMessage(tag: MustacheTag): string | null {
+    const name = tag.name;
+
+    switch (tag.type) {
+      case MustacheTagType.Comment:
+      case MustacheTagType.Delimiter:
+        return null;
+
+      case MustacheTagType.Section:
+      case MustacheTagType.Inverted:
+      case MustacheTagType.Closing:
+        if (!name) {
+          return "Section tag missing name";
+        }
+        break;
 
-      // Look for {{ inside another tag
-      const nestedPattern = /\{\{[^}]*\{\{/g;
-      let match;
-      while ((match = nestedPattern.exec(line)) !== null) {
-        errors.push(
-          this.createValidationError(
-            "Nested Mustache tags are not allowed",
-            lineNumber,
-            match.index,
-            "error",
-            match[0].length,
-            ERROR_CODES.NESTED_SECTIONS
-          )
-        );
-      }
+      case MustacheTagType.Variable:
+      case MustacheTagType.Unescaped:
+        if (!name) {
+          return null; // Reported as an empty tag
+        }
+        break;
+    }
 
-      // Reset regex lastIndex
-      nestedPattern.lastIndex = 0;
+    // The implicit iterator {{.}} is always valid
+    if (name === ".") {
+      return null;
     }
 
-    return errors;
-  }
+    if (/^[0-9]/.test(name)) {
+      return "Tag names cannot start with numbers";
+    }
 
-  /**
-   * Check for unbalanced braces in the entire text
-   */
-  private checkUnbalancedBraces(text: string): ValidationError[] {
-    const errors: ValidationError[] = [];
+    if (/\s/.test(name)) {
+      return "Tag names cannot contain whitespace";
+    }
 
-    // Count opening and closing brace pairs
-    const openingBraces = (text.match(/\{\{/g) || []).length;
-    const closingBraces = (text.match(/\}\}/g) || []).length;
-
-    if (openingBraces !== closingBraces) {
-      const difference = Math.abs(openingBraces - closingBraces);
-      const missingType = openingBraces > closingBraces ? "closing" : "opening";
-
-      errors.push(
-        this.createValidationError(
-          `Unbalanced braces: ${difference} ${missingType} brace${difference > 1 ? "s" : ""} missing`,
-          1,
-          0,
-          "error",
-          undefined,
-          ERROR_CODES.MUSTACHE_SYNTAX_ERROR
-        )
-      );
+    // Partial names are file names and may contain path separators
+    const validName = tag.type === MustacheTagType.Partial ? /^[a-zA-Z0-9_.\-\/]+$/ : /^[a-zA-Z_][a-zA-Z0-9_.\-]*$/;
+    if (!validName.test(name)) {
+      return "Invalid characters in tag name - use only letters, numbers, dots, underscores, and dashes";
     }
 
-    return errors;
+    return null;
   }
 
   /**
@@ -271,12 +186,14 @@ export class MustacheSyntaxValidator extends BaseValidator {
    */
   public validateMustacheRules(text: string): ValidationError[] {
     const errors: ValidationError[] = [];
+    const ast = this.parser.parse(text);
+    const locate = createLineColumnLookup(text);
 
     // Check for common mistakes
-    errors.push(...this.checkCommonMistakes(text));
+    errors.push(...this.checkCommonMistakes(ast, locate));
 
     // Check for best practices
-    errors.push(...this.checkBestPractices(text));
+    errors.push(...this.checkBestPractices(text, ast, locate));
 
     return errors;
   }
@@ -284,90 +201,111 @@ export class MustacheSyntaxValidator extends BaseValidator {
   /**
    * Check for common Mustache mistakes
    */
-  private checkCommonMistakes(text: string): ValidationError[] {
+  private checkCommonMistakes(ast: MustacheRootNode, locate: LineColumnLookup): ValidationError[] {
     const errors: ValidationError[] = [];
-    const lines = text.split("\n");
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNumber = i + 1;
-
-      // Common mistakes patterns
-      const mistakes = [
-        // Using == or != (not valid in Mustache)
-        { regex: /\{\{[^}]*[=!]=.*?\}\}/g, message: "Mustache does not support comparison operators - use sections instead" },
-        // Using && or || (not valid in Mustache)
-        { regex: /\{\{[^}]*[&|]{2}.*?\}\}/g, message: "Mustache does not support logical operators - use nested sections instead" },
-        // Trying to use if/else syntax
-        { regex: /\{\{\s*if\s+.*?\}\}/gi, message: "Use {{#condition}} instead of {{if condition}}" },
-        { regex: /\{\{\s*else\s*\}\}/gi, message: "Use {{^condition}} for else logic in Mustache" },
-        // HTML/XML style tags
-        { regex: /<mustache[^>]*>/gi, message: "Use {{ }} syntax, not HTML-style tags" },
-      ];
+
+    // Common mistakes patterns, matched against tag names
+    const mistakes = [
+      // Using == or != (not valid in Mustache)
+      { regex: /[=!]=/, message: "Mustache does not support comparison operators - use sections instead" },
+      // Using && or || (not valid in Mustache)
+      { regex: /&&|\|\|/, message: "Mustache does not support logical operators - use nested sections instead" },
+      // Trying to use if/else syntax
+      { regex: /^if\s+/i, message: "Use {{#condition}} instead of {{if condition}}" },
+      { regex: /^else$/i, message: "Use {{^condition}} for else logic in Mustache" },
+    ];
+
+    for (const tag of ast.tags) {
+      if (tag.type === MustacheTagType.Comment) {
+        continue;
+      }
 
       for (const mistake of mistakes) {
-        let match;
-        while ((match = mistake.regex.exec(line)) !== null) {
-          errors.push(
-            this.createValidationError(
-              mistake.message,
-              lineNumber,
-              match.index,
-              "warning",
-              match[0].length,
-              ERROR_CODES.MUSTACHE_SYNTAX_ERROR
-            )
-          );
+        if (mistake.regex.test(tag.name)) {
+          errors.push(this.createTagError(mistake.message, tag, locate, ERROR_CODES.MUSTACHE_SYNTAX_ERROR, "warning"));
         }
-        // Reset regex lastIndex
-        mistake.regex.lastIndex = 0;
       }
     }
 
+    // HTML/XML style tags
+    walkNodes(ast.children, (node) => {
+      if (node.type !== MustacheNodeType.Text) {
+        return;
+      }
+
+      const htmlPattern = /<mustache[^>]*>/gi;
+      let match;
+      while ((match = htmlPattern.exec(node.value)) !== null) {
+        const location = locate(node.start + match.index);
+        errors.push(
+          this.createValidationError(
+            "Use {{ }} syntax, not HTML-style tags",
+            location.line,
+            location.column,
+            "warning",
+            match[0].length,
+            ERROR_CODES.MUSTACHE_SYNTAX_ERROR
+          )
+        );
+      }
+    });
+
     return errors;
   }
 
   /**
    * Check for Mustache best practices
    */
-  private checkBestPractices(text: string): ValidationError[] {
+  private checkBestPractices(text: string, ast: MustacheRootNode, locate: LineColumnLookup): ValidationError[] {
     const errors: ValidationError[] = [];
-    const lines = text.split("\n");
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNumber = i + 1;
-
-      // Best practices checks
-      const practices = [
-        // Excessive whitespace in tags
-        { regex: /\{\{\s{3,}[^}]*\s{3,}\}\}/g, message: "Consider reducing whitespace in Mustache tags for better readability" },
-        // Very long variable names (over 50 chars)
-        {
-          regex: /\{\{\s*[#^/&]?\s*[a-zA-Z_][a-zA-Z0-9_.\-]{50,}\s*\}\}/g,
-          message: "Consider using shorter, more descriptive variable names",
-        },
-      ];
-
-      for (const practice of practices) {
-        let match;
-        while ((match = practice.regex.exec(line)) !== null) {
-          errors.push(
-            this.createValidationError(
-              practice.message,
-              lineNumber,
-              match.index,
-              "hint",
-              match[0].length,
-              ERROR_CODES.MUSTACHE_SYNTAX_ERROR
-            )
-          );
-        }
-        // Reset regex lastIndex
-        practice.regex.lastIndex = 0;
+
+    for (const tag of ast.tags) {
+      if (tag.type === MustacheTagType.Comment) {
+        continue;
+      }
+
+      // Excessive whitespace in tags
+      const inner = text.substring(tag.start + tag.openDelimiter.length, tag.end - tag.closeDelimiter.length);
+      if (/^\s{3,}/.test(inner) && /\s{3,}$/.test(inner)) {
+        errors.push(
+          this.createTagError(
+            "Consider reducing whitespace in Mustache tags for better readability",
+            tag,
+            locate,
+            ERROR_CODES.MUSTACHE_SYNTAX_ERROR,
+            "hint"
+          )
+        );
+      }
+
+      // Very long variable names (over 50 chars)
+      if (tag.name.length > 50 && tag.type !== MustacheTagType.Delimiter) {
+        errors.push(
+          this.createTagError(
+            "Consider using shorter, more descriptive variable names",
+            tag,
+            locate,
+            ERROR_CODES.MUSTACHE_SYNTAX_ERROR,
+            "hint"
+          )
+        );
       }
     }
 
     return errors;
   }
+
+  /**
+   * Create a validation error covering a whole tag
+   */
+  private createTagError(
+    message: string,
+    tag: MustacheTag,
+    locate: LineColumnLookup,
+    code: string,
+    severity: ValidationSeverity = "error"
+  ): ValidationError {
+    const location = locate(tag.start);
+    return this.createValidationError(message, location.line, location.column, severity, tag.end - tag.start, code);
+  }
 }